@@ -3,16 +3,34 @@ import { nanoid } from 'nanoid/non-secure';
 import * as path from 'path';
 import { RPC_Message } from '../lib/rpc-message-types';
 import { RPCChannel, SuperRPC } from '../lib/super-rpc';
+import { browserWindowDescriptor, serviceObjDescriptor } from './descriptors';
 
 const preloadPath = path.resolve(path.join(__dirname, '../lib/preload.js'));
 
 function createWindow() {
-    const rpc = new SuperRPC(nanoid);
+    const rpc = new SuperRPC(nanoid, {
+        strict: true,
+        // only the main window is trusted to open new windows, popups are not
+        hasCapability: (capability, { context }) => capability === 'windows' && context?.sender === mainWindow.webContents
+    });
+
+    // the renderers that are watched for being destroyed, a renderer is connected again after each navigation
+    const watchedSenders = new WeakSet<Electron.WebContents>();
 
     rpc.connect({
         receive: (callback: (message: RPC_Message, replyChannel?: RPCChannel, context?: any) => void) => {
             ipcMain.on('channel', (event, message) => {
+                const peerId = String(event.sender.id);
+                if (!rpc.hasPeer(peerId)) {
+                    // release everything that belongs to the renderer when it is reloaded or destroyed
+                    if (!watchedSenders.has(event.sender)) {
+                        watchedSenders.add(event.sender);
+                        event.sender.once('destroyed', () => rpc.disconnectPeer(peerId, 'destroyed'));
+                    }
+                    event.sender.once('did-navigate', () => rpc.disconnectPeer(peerId, 'navigated'));
+                }
                 callback(message, {
+                    peerId,
                     sendAsync: (msg) => event.reply('channel', msg),
                     sendSync: (msg) => { event.returnValue = msg; }
                 }, event);
@@ -21,42 +39,29 @@ function createWindow() {
     });
 
     const myServiceObject = {
-        createWindow: (options: any) => new BrowserWindow({
-            ...options,
-            webPreferences: {
-                ...options?.webPreferences,
-                nativeWindowOpen: true,
-                nodeIntegration: false,
-                contextIsolation: true,
-                preload: preloadPath
-            }
-        }),
+        createWindow: (options: any) => {
+            const win = new BrowserWindow({
+                ...options,
+                webPreferences: {
+                    ...options?.webPreferences,
+                    nativeWindowOpen: true,
+                    nodeIntegration: false,
+                    contextIsolation: true,
+                    preload: preloadPath
+                }
+            });
+            // the page changes the title without the setter, the event is emitted before the title is set
+            win.on('page-title-updated', () => setImmediate(() => rpc.notifyPropertyChanged(win, 'title')));
+            return win;
+        },
         getCurrentWindow: (context: Electron.IpcMainEvent) => BrowserWindow.fromWebContents(context.sender)
     };
 
-    rpc.registerHostObject('serviceObj', myServiceObject, {
-        functions: [
-            'createWindow',
-            'getCurrentWindow',
-        ]
+    rpc.registerHostObject('serviceObj', myServiceObject, serviceObjDescriptor, {
+        authorize: ({ prop }) => prop === 'createWindow' ? { capability: 'windows' } : true
     });
 
-    rpc.registerHostClass('BrowserWindow', BrowserWindow, {
-        ctor: { returns: 'sync' },
-        static: {
-            functions: [{ name: 'fromId', returns: 'sync' }, 'getAllWindows'],
-        },
-        instance: {
-            readonlyProperties: ['id'],
-            proxiedProperties: ['fullScreen', 'title'],
-            functions: [
-                'close', 'focus', 'blur', 'show', 'hide', 'setBounds', 'getBounds',
-                'getParentWindow', 'setParentWindow', 'loadURL', 'loadFile',
-                { name: 'addListener', returns: 'void', arguments: [{ idx: 1, type: 'function', returns: 'void' }]},
-                { name: 'removeListener', returns: 'void', arguments: [{ idx: 1, type: 'function', returns: 'void' }]}
-            ]
-        }
-    });
+    rpc.registerHostClass('BrowserWindow', BrowserWindow, browserWindowDescriptor);
 
     const mainWindow = myServiceObject.createWindow({
         width: 1200, height: 850,
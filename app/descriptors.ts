@@ -0,0 +1,41 @@
+/**
+ * Descriptors of the objects/classes exposed by the main process.
+ * They are declared `as const`, so the renderer can use them to type its proxies.
+ */
+
+export const serviceObjDescriptor = {
+    functions: [
+        {
+            name: 'createWindow',
+            // the renderer must not be able to pass e.g. `webPreferences`
+            arguments: [{
+                idx: 0,
+                schema: {
+                    type: 'object', optional: true, additionalProperties: false,
+                    properties: {
+                        width: { type: 'number', optional: true },
+                        height: { type: 'number', optional: true },
+                        title: { type: 'string', optional: true }
+                    }
+                }
+            }]
+        },
+        'getCurrentWindow',
+    ]
+} as const;
+
+export const browserWindowDescriptor = {
+    ctor: { returns: 'sync' },
+    static: {
+        functions: [{ name: 'fromId', returns: 'sync' }, 'getAllWindows'],
+    },
+    instance: {
+        readonlyProperties: ['id'],
+        proxiedProperties: ['fullScreen', { name: 'title', live: true }],
+        functions: [
+            'close', 'focus', 'blur', 'show', 'hide', 'setBounds', 'getBounds',
+            'getParentWindow', 'setParentWindow', 'loadURL', 'loadFile'
+        ],
+        events: ['move', 'resize', 'focus', 'blur', 'closed']
+    }
+} as const;
@@ -15,8 +15,13 @@
 export const rpc_disposed = Symbol('rpc_disposed');
 export const rpc_disposeFunc = Symbol('rpc_dispose');
 
+type RegistryEntry = {
+    ref: WeakRef<any>;
+    unregToken: object;
+};
+
 export class ProxyObjectRegistry {
-    private readonly registry = new Map<string, WeakRef<any>>();
+    private readonly registry = new Map<string, RegistryEntry>();
     private readonly objectFinalized = new FinalizationRegistry((rpc_dispose: () => void) => rpc_dispose());
 
     /**
@@ -32,7 +37,7 @@ export class ProxyObjectRegistry {
             dispose?.();
         };
         this.objectFinalized.register(obj, obj[rpc_disposeFunc], unregToken);
-        this.registry.set(objId, new WeakRef(obj));
+        this.registry.set(objId, { ref: new WeakRef(obj), unregToken });
     }
 
     public has(objId: string) {
@@ -44,7 +49,46 @@ export class ProxyObjectRegistry {
     }
 
     public get(objId: string) {
-        return this.registry.get(objId)?.deref();
+        return this.registry.get(objId)?.ref.deref();
+    }
+
+    /**
+     * The IDs of the registered objects.
+     */
+    public keys() {
+        return [...this.registry.keys()];
+    }
+
+    /**
+     * The number of registered objects (including the ones that are garbage collected, but not finalized yet).
+     */
+    public get size() {
+        return this.registry.size;
+    }
+
+    /**
+     * Marks all registered objects as disposed and empties the registry.
+     * The dispose callbacks are *not* called, this is used when the other side is gone.
+     */
+    public disposeAll() {
+        for (const { ref, unregToken } of this.registry.values()) {
+            this.objectFinalized.unregister(unregToken);
+            const obj = ref.deref();
+            if (obj) obj[rpc_disposed] = true;
+        }
+        this.registry.clear();
+    }
+
+    /**
+     * Marks an object as disposed and removes it from the registry.
+     * The dispose callback is *not* called, this is used when the other side has removed the object.
+     */
+    public dispose(objId: string) {
+        const entry = this.registry.get(objId);
+        if (!entry) return;
+        const obj = entry.ref.deref();
+        if (obj) obj[rpc_disposed] = true;
+        this.remoteObjectDisposed(objId, entry.unregToken);
     }
 
     private remoteObjectDisposed(objId: string, uregToken: object) {
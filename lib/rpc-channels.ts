@@ -0,0 +1,512 @@
+/**
+ * Ready-made [[RPCChannel]]s for the standard message passing APIs: `MessagePort`, `Worker`, `window.postMessage`
+ * and `BroadcastChannel`, both the web and the Node.js (`worker_threads`) flavors, and transports for
+ * Node.js streams (e.g. sockets, the stdio of a child process) and WebSockets.
+ *
+ * These channels are asynchronous only, so `sync` functions are called asynchronously (see [[FunctionReturnBehavior]]).
+ * @module
+ */
+
+import type { RPC_Message } from './rpc-message-types';
+import type { RPCChannel } from './super-rpc';
+
+/**
+ * A channel created by one of the adapters.
+ */
+export interface ClosableRPCChannel extends RPCChannel {
+    /**
+     * Stops listening to the messages and closes the underlying port/worker/channel (if the adapter owns it).
+     * The service connected to the channel is disconnected, see [[RPCChannel.onClose]].
+     * @param reason Passed on to the `onClose` callbacks.
+     */
+    close(reason?: any): void;
+}
+
+/**
+ * An object that emits events: the web flavor delivers them as event objects (`addEventListener`),
+ * the Node.js flavor as the data itself (`on`/`off`).
+ */
+export interface Listenable {
+    addEventListener?(type: string, listener: (event: any) => void): void;
+    removeEventListener?(type: string, listener: (event: any) => void): void;
+    on?(event: string, listener: (...args: any[]) => void): unknown;
+    off?(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * The part of `MessagePort`, `Worker` and `BroadcastChannel` used by the adapters.
+ */
+export interface MessageEndpoint extends Listenable {
+    postMessage(message: any): void;
+}
+
+/**
+ * The part of `Window` used by [[createWindowChannel]].
+ */
+export interface WindowEndpoint {
+    postMessage(message: any, targetOrigin: string): void;
+}
+
+/**
+ * The building blocks of a channel, see [[createChannel]].
+ */
+type ChannelParts = {
+    send: (message: RPC_Message) => void;
+
+    /**
+     * Starts listening to the messages, returns the function that stops it.
+     */
+    listen: (callback: (message: RPC_Message, replyChannel?: RPCChannel) => void) => () => void;
+
+    /**
+     * Starts listening to the other side going away, returns the function that stops it.
+     */
+    listenClose?: (close: (reason: string) => void) => () => void;
+
+    /**
+     * Closes the underlying object, called once when the channel is closed.
+     */
+    dispose?: () => void;
+};
+
+/**
+ * Creates a channel from its parts, taking care of the teardown: once closed (by [[ClosableRPCChannel.close]] or by the other side)
+ * the listeners are removed, nothing is sent anymore and the `onClose` callbacks are called.
+ */
+function createChannel({ send, listen, listenClose, dispose }: ChannelParts): ClosableRPCChannel & { readonly closed: boolean } {
+    const stopFns: (() => void)[] = [];
+    const closeCallbacks: ((reason?: any) => void)[] = [];
+    let closed = false;
+
+    const close = (reason?: any) => {
+        if (closed) return;
+        closed = true;
+        stopFns.splice(0).forEach(stop => stop());
+        dispose?.();
+        closeCallbacks.forEach(callback => callback(reason));
+    };
+    if (listenClose) stopFns.push(listenClose(close));
+
+    return {
+        sendAsync: message => {
+            if (!closed) send(message);
+        },
+        receive: callback => {
+            if (!closed) stopFns.push(listen(callback));
+        },
+        onClose: callback => {
+            closeCallbacks.push(callback);
+        },
+        close,
+        get closed() {
+            return closed;
+        }
+    };
+}
+
+/**
+ * Adds a listener to an endpoint, for the web flavor the listener gets the `data` of the event.
+ * Returns the function that removes the listener.
+ */
+function listenTo(endpoint: Listenable, event: string, listener: (data: any) => void) {
+    if (endpoint.on && endpoint.off) {
+        endpoint.on(event, listener);
+        return () => endpoint.off?.(event, listener);
+    }
+    const eventListener = (ev: any) => listener(ev?.data);
+    endpoint.addEventListener?.(event, eventListener);
+    return () => endpoint.removeEventListener?.(event, eventListener);
+}
+
+/**
+ * Creates a channel for one end of a `MessageChannel` (web or `worker_threads`), or for the other side of a worker
+ * (`parentPort` of `worker_threads`, or `self` in a web worker).
+ *
+ * Closing the channel closes the port, and closing the port at the other end closes the channel (where the port emits
+ * a `close` event, e.g. in Node.js).
+ */
+export function createMessagePortChannel(port: MessageEndpoint & { start?(): void, close?(): void }): ClosableRPCChannel {
+    return createChannel({
+        send: message => port.postMessage(message),
+        listen: callback => {
+            const stop = listenTo(port, 'message', message => callback(message));
+            // a web MessagePort only delivers the messages to event listeners after it is started
+            port.start?.();
+            return stop;
+        },
+        listenClose: close => listenTo(port, 'close', () => close('The port has been closed')),
+        dispose: () => port.close?.()
+    });
+}
+
+/**
+ * Creates a channel for a `Worker` (web or `worker_threads`), on the side that created it.
+ * The worker uses [[createMessagePortChannel]] on its side.
+ *
+ * Closing the channel terminates the worker, and the worker exiting closes the channel.
+ */
+export function createWorkerChannel(worker: MessageEndpoint & { terminate?(): unknown }): ClosableRPCChannel {
+    return createChannel({
+        send: message => worker.postMessage(message),
+        listen: callback => listenTo(worker, 'message', message => callback(message)),
+        listenClose: close => listenTo(worker, 'exit', () => close('The worker has exited')),
+        dispose: () => worker.terminate?.()
+    });
+}
+
+/**
+ * Creates a channel to another window (e.g. `iframe.contentWindow`, `window.parent` or `window.opener`) through `postMessage`.
+ *
+ * The messages are only sent to the `targetOrigin`, and only the messages coming from the target window
+ * *and* from the `targetOrigin` are accepted. Avoid `'*'`, it lets any page loaded in the target window talk to this side.
+ *
+ * Closing the channel stops listening to the messages, the windows are not closed.
+ * @param receiver The window that receives the messages (this window by default).
+ */
+export function createWindowChannel(target: WindowEndpoint, targetOrigin: string, receiver: Listenable = <any>globalThis): ClosableRPCChannel {
+    return createChannel({
+        send: message => target.postMessage(message, targetOrigin),
+        listen: callback => {
+            const listener = (event: MessageEvent) => {
+                if (event.source !== target || (targetOrigin !== '*' && event.origin !== targetOrigin)) return;
+                callback(event.data);
+            };
+            receiver.addEventListener?.('message', listener);
+            return () => receiver.removeEventListener?.('message', listener);
+        }
+    });
+}
+
+/**
+ * The envelope of the messages sent through a `BroadcastChannel`: `to` is not set for the messages sent to everyone,
+ * `left` is set (without a message) when the sender closes its channel.
+ */
+type BroadcastEnvelope = { srpc_from: string, srpc_to?: string, message?: RPC_Message, srpc_left?: boolean };
+
+/**
+ * The requests that are answered by the participants through their reply channels, so they can only be sent to a peer.
+ */
+const peerRequests = ['get_descriptors', 'get_object_descriptors', 'handshake'];
+
+/**
+ * Creates a channel for a `BroadcastChannel` (web or `worker_threads`), where every participant has an ID.
+ *
+ * The messages sent through the channel itself go to everyone, the replies only to the sender: the other participants
+ * are peers (see [[RPCChannel.peerId]]), so their objects are reached with their IDs, e.g. after the `peerConnect` event.
+ * Requests (e.g. [[SuperRPC.requestRemoteDescriptors]]) need the ID of a peer, sending them to everyone throws.
+ *
+ * Closing the channel tells the others that this participant has left (they disconnect it as a peer)
+ * and closes the `BroadcastChannel`.
+ * @param peerId The ID of this participant, it must be unique among the participants.
+ */
+export function createBroadcastChannel(broadcastChannel: MessageEndpoint & { close?(): void }, peerId: string): ClosableRPCChannel {
+    const post = (envelope: Omit<BroadcastEnvelope, 'srpc_from'>) => {
+        broadcastChannel.postMessage({ srpc_from: peerId, ...envelope });
+    };
+    const channel = createChannel({
+        send: message => {
+            if (peerRequests.includes(message.action)) {
+                throw new Error(`'${message.action}' can not be sent to every participant of a BroadcastChannel, send it to a peer`);
+            }
+            post({ message });
+        },
+        listen: callback => listenTo(broadcastChannel, 'message', (envelope: BroadcastEnvelope) => {
+            if (typeof envelope?.srpc_from !== 'string' || envelope.srpc_from === peerId) return;
+            if (envelope.srpc_left) {
+                peerLeft(envelope.srpc_from);
+                return;
+            }
+            if (envelope.srpc_to !== undefined && envelope.srpc_to !== peerId) return;
+            if (envelope.message) callback(envelope.message, getReplyChannel(envelope.srpc_from).replyChannel);
+        }),
+        dispose: () => {
+            post({ srpc_left: true });
+            broadcastChannel.close?.();
+        }
+    });
+
+    const replyChannels = new Map<string, { replyChannel: RPCChannel, closeCallbacks: ((reason?: any) => void)[] }>();
+    const getReplyChannel = (to: string) => {
+        let entry = replyChannels.get(to);
+        if (!entry) {
+            const closeCallbacks: ((reason?: any) => void)[] = [];
+            replyChannels.set(to, entry = {
+                replyChannel: {
+                    peerId: to,
+                    sendAsync: message => {
+                        if (!channel.closed) post({ srpc_to: to, message });
+                    },
+                    onClose: callback => {
+                        closeCallbacks.push(callback);
+                    }
+                },
+                closeCallbacks
+            });
+        }
+        return entry;
+    };
+
+    const peerLeft = (from: string) => {
+        const entry = replyChannels.get(from);
+        replyChannels.delete(from);
+        entry?.closeCallbacks.forEach(callback => callback('The participant has left'));
+    };
+
+    return channel;
+}
+
+/**
+ * The part of a Node.js readable stream used by [[createStreamChannel]], e.g. a socket or `process.stdin`.
+ */
+export interface ReadableStreamLike extends Listenable {
+    on(event: string, listener: (...args: any[]) => void): unknown;
+    off(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+/**
+ * The part of a Node.js writable stream used by [[createStreamChannel]], e.g. a socket or `process.stdout`.
+ */
+export interface WritableStreamLike extends Listenable {
+    write(chunk: Uint8Array): unknown;
+    end?(): unknown;
+}
+
+/**
+ * Options of [[createStreamChannel]].
+ */
+export interface StreamChannelOptions {
+    /**
+     * How the messages (JSON) are delimited in the stream:
+     * - `newline`: one message per line. Lines that are not JSON (e.g. logs in the output of a child process) are ignored.
+     * - `length`: each message is prefixed with its length in bytes (4 bytes, big-endian).
+     * @default 'newline'
+     */
+    framing?: 'newline' | 'length';
+
+    /**
+     * If `true`, the messages sent in the same tick are written to the stream together, in one chunk.
+     * @default false
+     */
+    buffer?: boolean;
+
+    /**
+     * The maximum size of a received message (in bytes for `length` framing, in characters for `newline` framing).
+     * A larger message closes the channel with an error. `0` or `undefined` means no limit.
+     */
+    maxMessageSize?: number;
+}
+
+/**
+ * Encodes the messages as frames of a stream, and collects the messages from the received chunks.
+ */
+type Framing = {
+    encode(message: RPC_Message): Uint8Array;
+
+    /**
+     * Adds a received chunk, and calls `onMessage` with the JSON of each complete message.
+     * Throws if a message is larger than the limit.
+     */
+    decode(chunk: string | Uint8Array, onMessage: (json: string) => void): void;
+};
+
+const textEncoder = new TextEncoder();
+
+function createNewlineFraming(maxMessageSize = 0): Framing {
+    const decoder = new TextDecoder();
+    let text = '';
+    const checkSize = (line: string) => {
+        if (maxMessageSize && line.length > maxMessageSize) throw new Error(`Message is larger than ${maxMessageSize} characters`);
+    };
+    return {
+        // JSON has no raw newlines, they are escaped in strings
+        encode: message => textEncoder.encode(JSON.stringify(message) + '\n'),
+        decode: (chunk, onMessage) => {
+            // the decoder keeps the partial characters until the next chunk
+            text += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+            let idx: number;
+            while ((idx = text.indexOf('\n')) >= 0) {
+                const line = text.slice(0, idx);
+                text = text.slice(idx + 1);
+                checkSize(line);
+                onMessage(line);
+            }
+            checkSize(text);
+        }
+    };
+}
+
+function createLengthFraming(maxMessageSize = 0): Framing {
+    const decoder = new TextDecoder();
+    let buffer = new Uint8Array(0);
+    return {
+        encode: message => {
+            const json = textEncoder.encode(JSON.stringify(message));
+            const frame = new Uint8Array(4 + json.length);
+            new DataView(frame.buffer).setUint32(0, json.length);
+            frame.set(json, 4);
+            return frame;
+        },
+        decode: (chunk, onMessage) => {
+            buffer = concatBytes([buffer, typeof chunk === 'string' ? textEncoder.encode(chunk) : chunk]);
+            while (buffer.length >= 4) {
+                const length = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength).getUint32(0);
+                if (maxMessageSize && length > maxMessageSize) throw new Error(`Message is larger than ${maxMessageSize} bytes`);
+                if (buffer.length < 4 + length) break;
+                const json = decoder.decode(buffer.subarray(4, 4 + length));
+                buffer = buffer.subarray(4 + length);
+                onMessage(json);
+            }
+        }
+    };
+}
+
+function concatBytes(chunks: Uint8Array[]) {
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+/**
+ * Parses a received message, returns `undefined` if it is not JSON.
+ */
+function parseMessage(json: string): RPC_Message | undefined {
+    try {
+        return JSON.parse(json);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Passes a received message on. The errors of processing it are reported like uncaught errors: they must not
+ * end up in the handler of the stream/socket, and must not stop the messages after it.
+ */
+function deliverMessage(callback: (message: RPC_Message) => void, message: RPC_Message) {
+    try {
+        callback(message);
+    } catch (err) {
+        queueMicrotask(() => { throw err; });
+    }
+}
+
+/**
+ * Creates a channel over Node.js streams: a socket (`net`, `tls`), or the stdio of a child process.
+ * The messages are sent as JSON, see [[StreamChannelOptions.framing]].
+ *
+ * ```ts
+ * // parent
+ * const child = spawn('node', ['child.js']);
+ * rpc.connect(createStreamChannel(child.stdout, child.stdin));
+ * // child
+ * rpc.connect(createStreamChannel(process.stdin, process.stdout));
+ * ```
+ *
+ * Closing the channel ends the output stream, the input stream ending (or failing) closes the channel.
+ * @param input The stream the messages are read from.
+ * @param output The stream the messages are written to, the same as `input` for a socket.
+ */
+export function createStreamChannel(input: ReadableStreamLike, output: WritableStreamLike, options: StreamChannelOptions = {}): ClosableRPCChannel {
+    const framing = options.framing === 'length' ? createLengthFraming(options.maxMessageSize) : createNewlineFraming(options.maxMessageSize);
+    let pending: Uint8Array[] | undefined;
+
+    const flush = () => {
+        if (pending) output.write(concatBytes(pending));
+        pending = undefined;
+    };
+
+    const channel = createChannel({
+        send: message => {
+            const frame = framing.encode(message);
+            if (!options.buffer) {
+                output.write(frame);
+                return;
+            }
+            if (!pending) {
+                pending = [];
+                Promise.resolve().then(() => channel.closed || flush());
+            }
+            pending.push(frame);
+        },
+        listen: callback => listenTo(input, 'data', chunk => {
+            const messages: RPC_Message[] = [];
+            try {
+                framing.decode(chunk, json => {
+                    const message = parseMessage(json);
+                    if (message !== undefined) messages.push(message);
+                });
+            } catch (err) {
+                channel.close(err);
+            }
+            // only a broken stream closes the channel, not the errors of processing the messages
+            if (!channel.closed) messages.forEach(message => deliverMessage(callback, message));
+        }),
+        listenClose: close => {
+            const stopFns = [
+                listenTo(input, 'end', () => close('The stream has ended')),
+                listenTo(input, 'close', () => close('The stream has ended')),
+                listenTo(input, 'error', err => close(err)),
+                // e.g. writing to the stdin of a child process that has exited
+                listenTo(output, 'error', err => close(err))
+            ];
+            return () => stopFns.forEach(stop => stop());
+        },
+        dispose: () => {
+            flush();
+            output.end?.();
+        }
+    });
+    return channel;
+}
+
+/**
+ * The part of a WebSocket used by [[createWebSocketChannel]]: the web `WebSocket`, or e.g. the one of the `ws` package.
+ */
+export interface WebSocketLike extends Listenable {
+    readonly readyState: number;
+    send(data: string): void;
+    close(): void;
+}
+
+/**
+ * `WebSocket.CONNECTING`
+ */
+const webSocketConnecting = 0;
+
+/**
+ * Creates a channel for a WebSocket, the messages are sent as JSON text frames.
+ *
+ * The messages sent while the socket is connecting are buffered, and sent when it opens.
+ * Closing the channel closes the socket, the socket closing closes the channel.
+ */
+export function createWebSocketChannel(socket: WebSocketLike): ClosableRPCChannel {
+    const decoder = new TextDecoder();
+    let queue: string[] | undefined = socket.readyState === webSocketConnecting ? [] : undefined;
+
+    const stopOpen = listenTo(socket, 'open', () => {
+        const messages = queue ?? [];
+        queue = undefined;
+        messages.forEach(data => socket.send(data));
+    });
+
+    return createChannel({
+        send: message => {
+            const data = JSON.stringify(message);
+            if (queue) queue.push(data);
+            else socket.send(data);
+        },
+        // the `ws` package delivers text frames as a Buffer
+        listen: callback => listenTo(socket, 'message', data => {
+            const message = parseMessage(typeof data === 'string' ? data : decoder.decode(data));
+            if (message !== undefined) deliverMessage(callback, message);
+        }),
+        listenClose: close => listenTo(socket, 'close', () => close('The socket has been closed')),
+        dispose: () => {
+            stopOpen();
+            socket.close();
+        }
+    });
+}
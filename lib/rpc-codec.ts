@@ -0,0 +1,114 @@
+/**
+ * Encoding of values that JSON (or the structured clone algorithm of some channels) can not transport as they are.
+ * See [[SuperRPC.registerValueType]].
+ * @module
+ */
+
+/**
+ * Serializes/deserializes the values of a type, e.g. `Date`. The values are copied, not proxied.
+ *
+ * The serialized data is sent as `{ _rpc_type: 'value', valueType, data }`, where `valueType` is the name
+ * the type was registered with on both sides.
+ */
+export interface ValueType<T = any, TData = any> {
+    /**
+     * Returns `true` if the value is of this type.
+     */
+    test(value: unknown): boolean;
+
+    /**
+     * Converts the value to data that can be sent through the channel.
+     * It is also called to find the objects that occur more than once in a message, so it should have no side effects.
+     * @param serialize Serializes nested values (e.g. the items of a collection) the same way as the value itself.
+     */
+    serialize(value: T, serialize: (value: unknown) => unknown): TData;
+
+    /**
+     * Re-creates the value from the data.
+     * @param deserialize Deserializes the nested values serialized with the `serialize` callback of [[serialize]].
+     */
+    deserialize(data: TData, deserialize: (value: unknown) => unknown): T;
+}
+
+const typedArrayClasses = [
+    Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array,
+    Float32Array, Float64Array, BigInt64Array, BigUint64Array
+];
+
+type TypedArray = InstanceType<typeof typedArrayClasses[number]>;
+
+/**
+ * The value types supported out of the box. `Error`s are handled separately, see [[SuperRPC.registerErrorClass]].
+ */
+export const builtinValueTypes: { readonly [name: string]: ValueType } = {
+    Date: <ValueType<Date, string | null>>{
+        test: value => value instanceof Date,
+        // `null` for an invalid date
+        serialize: value => value.toJSON(),
+        deserialize: data => new Date(data ?? NaN)
+    },
+    RegExp: <ValueType<RegExp, { source: string, flags: string }>>{
+        test: value => value instanceof RegExp,
+        serialize: ({ source, flags }) => ({ source, flags }),
+        deserialize: ({ source, flags }) => new RegExp(source, flags)
+    },
+    BigInt: <ValueType<bigint, string>>{
+        test: value => typeof value === 'bigint',
+        serialize: value => value.toString(),
+        deserialize: data => BigInt(data)
+    },
+    Map: <ValueType<Map<unknown, unknown>, [unknown, unknown][]>>{
+        test: value => value instanceof Map,
+        serialize: (value, serialize) => [...value].map(([key, item]) => [serialize(key), serialize(item)]),
+        deserialize: (data, deserialize) => new Map(data.map(([key, item]) => [deserialize(key), deserialize(item)]))
+    },
+    Set: <ValueType<Set<unknown>, unknown[]>>{
+        test: value => value instanceof Set,
+        serialize: (value, serialize) => [...value].map(serialize),
+        deserialize: (data, deserialize) => new Set(data.map(deserialize))
+    },
+    ArrayBuffer: <ValueType<ArrayBuffer, string>>{
+        // works with buffers from other realms (e.g. iframes) too
+        test: value => Object.prototype.toString.call(value) === '[object ArrayBuffer]',
+        serialize: value => toBase64(new Uint8Array(value)),
+        deserialize: data => fromBase64(data).buffer
+    },
+    TypedArray: <ValueType<TypedArray, { arrayType: string, bytes: string }>>{
+        test: value => ArrayBuffer.isView(value) && !(value instanceof DataView),
+        serialize: value => ({
+            arrayType: value.constructor.name,
+            bytes: toBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength))
+        }),
+        deserialize: ({ arrayType, bytes }) => {
+            const arrayClass = typedArrayClasses.find(clazz => clazz.name === arrayType) ?? Uint8Array;
+            // copy the bytes to a new buffer, so it is aligned for the element size
+            return new arrayClass(fromBase64(bytes).buffer);
+        }
+    }
+};
+
+const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// btoa/atob are not available in every environment, and they work on binary strings anyway
+function toBase64(bytes: Uint8Array) {
+    let result = '';
+    for (let idx = 0; idx < bytes.length; idx += 3) {
+        const chunk = (bytes[idx] << 16) | ((bytes[idx + 1] ?? 0) << 8) | (bytes[idx + 2] ?? 0);
+        result += base64Chars[chunk >> 18] + base64Chars[(chunk >> 12) & 63] +
+            (idx + 1 < bytes.length ? base64Chars[(chunk >> 6) & 63] : '=') +
+            (idx + 2 < bytes.length ? base64Chars[chunk & 63] : '=');
+    }
+    return result;
+}
+
+function fromBase64(data: string) {
+    const length = data.length / 4 * 3 - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+    const bytes = new Uint8Array(length);
+    for (let idx = 0, byteIdx = 0; idx < data.length; idx += 4, byteIdx += 3) {
+        const chunk = [0, 1, 2, 3].reduce((acc, offset) => (acc << 6) | Math.max(base64Chars.indexOf(data[idx + offset]), 0), 0);
+        bytes[byteIdx] = chunk >> 16;
+        if (byteIdx + 1 < length) bytes[byteIdx + 1] = (chunk >> 8) & 255;
+        if (byteIdx + 2 < length) bytes[byteIdx + 2] = chunk & 255;
+    }
+    return bytes;
+}
@@ -4,6 +4,8 @@
  * @module
  */
 
+import type { Schema } from './rpc-validation';
+
 /**
  * Function return behaviors are the following:
  * - sync  - the proxy function will return the result synchronously (works only if the channel supports synchronous communication)
@@ -26,12 +28,24 @@ export interface FunctionDescriptor<TReturn extends FunctionReturnBehavior = Fun
      *
      * Currently only functions need to be described with a [[FunctionDescriptor]], otherwise no descriptor is needed.
      */
-    arguments?: ArgumentDescriptor[];
+    arguments?: readonly ArgumentDescriptor[];
 
     /**
      * Return behavior.
      */
     returns?: TReturn;
+
+    /**
+     * Timeout (in milliseconds) for 'async' calls of this function. Overrides [[SuperRPCOptions.callTimeout]].
+     * `0` means no timeout.
+     */
+    timeout?: number;
+
+    /**
+     * If set, the result of the function is validated on the host side before it is sent back.
+     * An invalid result fails the call with an [[RPCValidationError]].
+     */
+    resultSchema?: Schema;
 }
 
 /**
@@ -59,17 +73,38 @@ export interface PropertyDescriptor {
      * @default false
      */
     readonly?: boolean;
+
+    /**
+     * If set, the values assigned to the property are validated on the host side.
+     * An invalid value fails the assignment with an [[RPCValidationError]].
+     */
+    schema?: Schema;
+
+    /**
+     * If `true`, the value is sent along with the object and the host pushes its changes to the other side,
+     * so the proxy reads it from a local cache instead of calling the host.
+     * The proxy emits a `propertyChanged` event (`name`, `value`, `oldValue`) on each change,
+     * see [[SuperRPC.notifyPropertyChanged]].
+     * @default false
+     */
+    live?: boolean;
 }
 
 /**
  * Describes an argument for a function. If `idx` is not set then this
  * descriptor applies to *all* arguments.
  *
- * Since we only care about functions as arguments, for now, it is basically a FunctionDescriptor.
- * If the argument is not a function, do not specify a descriptor for it!
+ * For function arguments it is basically a FunctionDescriptor.
+ * Other arguments only need a descriptor to be validated, see [[schema]].
  */
 export interface ArgumentDescriptor extends FunctionDescriptor {
     idx?: number;
+
+    /**
+     * If set, the argument is validated on the host side before the function is called.
+     * An invalid argument fails the call with an [[RPCValidationError]]. See [[SuperRPCOptions.validateArguments]].
+     */
+    schema?: Schema;
 }
 
 /**
@@ -82,17 +117,26 @@ export interface ObjectDescriptor {
      * List of functions we want to expose on the proxy object.
      * Default return behavior is 'async'.
      */
-    functions?: (string|FunctionDescriptor)[];
+    functions?: readonly (string|FunctionDescriptor)[];
 
     /**
      * List of properties we want to expose on the proxy object.
      */
-    proxiedProperties?: (string|PropertyDescriptor)[];
+    proxiedProperties?: readonly (string|PropertyDescriptor)[];
 
     /**
      * Since readonly property values don't change, they are sent to the other side, instead of generating a getter.
      */
-    readonlyProperties?: string[];
+    readonlyProperties?: readonly string[];
+
+    /**
+     * List of events the other side can subscribe to. The host object has to be an event emitter
+     * (`addListener`/`removeListener`, `addEventListener`/`removeEventListener` or `on`/`off`).
+     *
+     * The proxy object gets `on`, `off` and `once` functions and an `events(name)` function that returns
+     * an async iterator of the event arguments (unless `functions` has members with these names).
+     */
+    events?: readonly string[];
 }
 
 export interface ObjectDescriptorWithProps extends ObjectDescriptor {
@@ -100,6 +144,11 @@ export interface ObjectDescriptorWithProps extends ObjectDescriptor {
      * This is filled in by the library. It contains the values of the readonlyProperties on the given object.
      */
     props?: any;
+
+    /**
+     * This is filled in by the library. It contains the current values of the live properties on the given object.
+     */
+    liveProps?: any;
 }
 
 /**
@@ -152,6 +201,30 @@ export function getPropertyDescriptor(descriptor?: ObjectDescriptor, propName?:
     return <PropertyDescriptor>descriptor?.proxiedProperties?.find(prop => typeof prop === 'object' && prop.name === propName);
 }
 
+export function getLivePropertyNames(descriptor?: ObjectDescriptor) {
+    return (descriptor?.proxiedProperties ?? []).filter(prop => typeof prop === 'object' && prop.live).map(getPropName);
+}
+
+/**
+ * Checks if the member is exposed by the descriptor for the given kind of access:
+ * - 'prop_get'    - listed in `proxiedProperties` or `readonlyProperties`
+ * - 'prop_set'    - listed in `proxiedProperties` and not `readonly`
+ * - 'method_call' - listed in `functions`
+ * - 'event'       - listed in `events`
+ */
+export function isMemberExposed(descriptor: ObjectDescriptor | undefined, access: 'prop_get' | 'prop_set' | 'method_call' | 'event', name: string) {
+    switch (access) {
+        case 'prop_get':
+            return !!descriptor?.proxiedProperties?.some(prop => getPropName(prop) === name) || !!descriptor?.readonlyProperties?.includes(name);
+        case 'prop_set':
+            return !!descriptor?.proxiedProperties?.some(prop => getPropName(prop) === name && !(typeof prop === 'object' && prop.readonly));
+        case 'method_call':
+            return !!descriptor?.functions?.some(func => getPropName(func) === name);
+        case 'event':
+            return !!descriptor?.events?.includes(name);
+    }
+}
+
 export function isFunctionDescriptor(descriptor?: Descriptor): descriptor is FunctionDescriptor {
     return descriptor?.type === 'function';
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+/**
+ * Error classes used by the library.
+ * @module
+ */
+
+import { libraryVersion, protocolVersion } from './rpc-handshake';
+import type { ValidationIssue } from './rpc-validation';
+
+/**
+ * Thrown (rejected) when an async call does not get a reply in time.
+ *
+ * @see [[SuperRPCOptions.callTimeout]], [[FunctionDescriptor.timeout]]
+ */
+export class RPCTimeoutError extends Error {
+    constructor(public readonly timeout: number, public readonly objId?: string, public readonly prop?: string) {
+        super(`Call ${prop ? `'${prop}' ` : ''}on object '${objId}' timed out after ${timeout}ms`);
+        this.name = 'RPCTimeoutError';
+    }
+}
+
+/**
+ * Pending calls are rejected with this error when the channel is closed.
+ *
+ * @see [[SuperRPC.disconnect]], [[RPCChannel.onClose]]
+ */
+export class RPCChannelClosedError extends Error {
+    constructor(public readonly reason?: any) {
+        super(`The channel has been closed${reason ? `: ${reason}` : ''}`);
+        this.name = 'RPCChannelClosedError';
+    }
+}
+
+/**
+ * An async call is rejected with this error when it is cancelled through its `AbortSignal`.
+ *
+ * @see [[CallOptions.signal]]
+ */
+export class RPCAbortError extends Error {
+    constructor(public readonly objId?: string, public readonly prop?: string) {
+        super(`Call ${prop ? `'${prop}' ` : ''}on object '${objId}' has been aborted`);
+        this.name = 'RPCAbortError';
+    }
+}
+
+/**
+ * A call is rejected with this error when its arguments (or its result) do not match the schemas in the descriptor.
+ *
+ * @see [[ArgumentDescriptor.schema]], [[FunctionDescriptor.resultSchema]], [[PropertyDescriptor.schema]]
+ */
+export class RPCValidationError extends Error {
+    constructor(public readonly issues: ValidationIssue[], public readonly objId?: string, public readonly prop?: string) {
+        super(`Validation of call ${prop ? `'${prop}' ` : ''}on object '${objId}' failed: ${issues.map(issue => `${issue.path}: ${issue.message}`).join(', ')}`);
+        this.name = 'RPCValidationError';
+    }
+}
+
+/**
+ * In strict mode, a call is rejected with this error when it accesses a member that is not exposed by the descriptor.
+ *
+ * @see [[SuperRPCOptions.strict]]
+ */
+export class RPCAccessError extends Error {
+    constructor(public readonly objId?: string, public readonly prop?: string) {
+        super(`Access to '${prop}' on object '${objId}' is not allowed`);
+        this.name = 'RPCAccessError';
+    }
+}
+
+/**
+ * A call is rejected with this error when it is denied by an [[AuthorizationPolicy]].
+ *
+ * @see [[SuperRPCOptions.authorize]], [[HostObjectOptions.authorize]]
+ */
+export class RPCAuthorizationError extends Error {
+    constructor(public readonly objId?: string, public readonly prop?: string, public readonly capability?: string) {
+        super(`Call ${prop ? `'${prop}' ` : ''}on object '${objId}' is not authorized${capability ? `, it requires the '${capability}' capability` : ''}`);
+        this.name = 'RPCAuthorizationError';
+    }
+}
+
+/**
+ * Thrown (rejected) when a proxy of a revoked host object is used, or a call arrives for a revoked host object.
+ *
+ * @see [[SuperRPC.revokeHostObject]], [[SuperRPC.revokeHostClass]]
+ */
+export class RPCRevokedError extends Error {
+    constructor(public readonly objId?: string) {
+        super(`Object '${objId}' has been revoked`);
+        this.name = 'RPCRevokedError';
+    }
+}
+
+/**
+ * The handshake is rejected with this error when the other side uses a different protocol version,
+ * or it does not answer the handshake (e.g. it uses a version of the library from before the handshake).
+ *
+ * @see [[SuperRPC.handshake]]
+ */
+export class RPCProtocolError extends Error {
+    constructor(public readonly remoteProtocolVersion?: number, public readonly remoteLibraryVersion?: string) {
+        super(remoteProtocolVersion === undefined
+            ? 'The other side did not answer the handshake, it may use an older version of the library'
+            : `Protocol version mismatch: this side uses version ${protocolVersion} (library ${libraryVersion}), ` +
+                `the other side version ${remoteProtocolVersion} (library ${remoteLibraryVersion})`);
+        this.name = 'RPCProtocolError';
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Events of host objects - **used internally** by [[SuperRPC]], see [[ObjectDescriptor.events]].
+ *
+ * The other side subscribes to an event of an object once (no matter how many listeners it has), and the host
+ * sends the event to it until it unsubscribes, releases the object or disconnects.
+ * @module
+ * @internal
+ */
+
+type Listener = (...args: any[]) => void;
+
+/**
+ * Called on the listeners of an event when no more events will be delivered to them (e.g. the peer disconnected).
+ */
+export const eventsEnded = Symbol('eventsEnded');
+
+/**
+ * Marks the wrapper of a `once` listener with the original listener, so it can be removed by the original.
+ */
+export const onceListenerOf = Symbol('onceListenerOf');
+
+/**
+ * Adds a listener to an event emitter (Node.js/Electron `addListener`, DOM `addEventListener` or `on`/`off`).
+ * Returns the function that removes the listener, or `undefined` if the object does not support events.
+ */
+export function addHostEventListener(target: any, event: string, listener: Listener): (() => void) | undefined {
+    if (typeof target?.addListener === 'function' && typeof target.removeListener === 'function') {
+        target.addListener(event, listener);
+        return () => target.removeListener(event, listener);
+    }
+    if (typeof target?.addEventListener === 'function' && typeof target.removeEventListener === 'function') {
+        target.addEventListener(event, listener);
+        return () => target.removeEventListener(event, listener);
+    }
+    if (typeof target?.on === 'function' && typeof target.off === 'function') {
+        target.on(event, listener);
+        return () => target.off(event, listener);
+    }
+}
+
+/**
+ * Creates an async iterator of the events, each item is the array of the event arguments.
+ * The events are buffered until they are consumed, the listener is removed when the iteration is finished.
+ */
+export function createEventIterator(on: (listener: Listener) => void, off: (listener: Listener) => void): AsyncIterableIterator<unknown[]> {
+    const buffer: unknown[][] = [];
+    let waiting: ((result: IteratorResult<unknown[]>) => void) | undefined;
+    let finished = false;
+
+    const finish = () => {
+        if (finished) return;
+        finished = true;
+        off(listener);
+        waiting?.({ done: true, value: undefined });
+        waiting = undefined;
+    };
+
+    const listener = Object.assign((...args: unknown[]) => {
+        if (waiting) {
+            waiting({ done: false, value: args });
+            waiting = undefined;
+        } else {
+            buffer.push(args);
+        }
+    }, { [eventsEnded]: finish });
+
+    on(listener);
+
+    return {
+        next() {
+            const args = buffer.shift();
+            if (args) return Promise.resolve({ done: false, value: args });
+            if (finished) return Promise.resolve({ done: true, value: undefined });
+            return new Promise(resolve => waiting = resolve);
+        },
+        async return(value?: unknown) {
+            finish();
+            buffer.length = 0;
+            return { done: true, value };
+        },
+        [Symbol.asyncIterator]() {
+            return this;
+        }
+    };
+}
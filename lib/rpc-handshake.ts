@@ -0,0 +1,60 @@
+/**
+ * The protocol version and the features exchanged by the handshake, see [[SuperRPC.handshake]].
+ * @module
+ */
+
+/**
+ * The version of the message protocol. Sides with different protocol versions can not talk to each other.
+ *
+ * It only changes when existing messages change, new optional features are announced as [[protocolExtensions]].
+ */
+export const protocolVersion = 1;
+
+/**
+ * The version of the library, for information (e.g. in error messages).
+ */
+export const libraryVersion = '1.0.0';
+
+/**
+ * The optional features of the protocol supported by this version of the library, see [[HandshakeFeatures.extensions]].
+ */
+export const protocolExtensions = [
+    'events', 'liveProperties', 'asyncIterators', 'descriptorUpdates', 'objectDescriptors', 'revoke'
+] as const;
+
+export type ProtocolExtension = typeof protocolExtensions[number];
+
+/**
+ * The features a side supports, sent in the handshake.
+ */
+export interface HandshakeFeatures {
+    /**
+     * The side can answer synchronous messages (its channel has `sendSync`).
+     */
+    sync: boolean;
+
+    /**
+     * The side can answer asynchronous messages (its channel has `sendAsync`).
+     */
+    async: boolean;
+
+    /**
+     * The names of the registered value types, see [[SuperRPC.registerValueType]].
+     * Sending a value of another type to the side throws.
+     */
+    valueTypes: string[];
+
+    /**
+     * The optional features of the protocol the side supports, see [[protocolExtensions]].
+     */
+    extensions: string[];
+}
+
+/**
+ * What a side tells about itself in the handshake.
+ */
+export interface HandshakeInfo {
+    protocolVersion: number;
+    libraryVersion: string;
+    features: HandshakeFeatures;
+}
@@ -7,15 +7,35 @@
  */
 
 import type { ClassDescriptors, ObjectDescriptors } from './rpc-descriptor-types';
+import type { HandshakeInfo } from './rpc-handshake';
+import type { TraceContext } from './rpc-tracing';
 
 export type RPC_Marker = { rpc_marker?: 'srpc' };
 
+// handshake: the protocol version and the features of the sender, answered with those of the other side
+export type RPC_HandshakeMessage = RPC_Marker & { info: HandshakeInfo } &
+    ({ action: 'handshake', callType: 'sync' } | { action: 'handshake', callType: 'async', callId: number | string });
+export type RPC_HandshakeResultMessage = RPC_Marker & { info: HandshakeInfo } &
+    ({ action: 'handshake_reply', callType: 'sync' } | { action: 'handshake_reply', callType: 'async', callId: number | string });
+
 // descriptor request & response
 export type RPC_GetDescriptorsMessage = RPC_Marker & { action: 'get_descriptors' };
 export type RPC_DescriptorsResultMessage = RPC_Marker & { action: 'descriptors', objects: ObjectDescriptors, classes: ClassDescriptors };
+// the descriptors of specific objects/classes (a class comes with its static object), see SuperRPC.getProxyObjectAsync
+export type RPC_GetObjectDescriptorsMessage = RPC_Marker & { objIds: string[], classIds: string[] } &
+    ({ action: 'get_object_descriptors', callType: 'sync' } | { action: 'get_object_descriptors', callType: 'async', callId: number | string });
+export type RPC_ObjectDescriptorsResultMessage = RPC_Marker & { objects: ObjectDescriptors, classes: ClassDescriptors } &
+    ({ action: 'object_descriptors', callType: 'sync' } | { action: 'object_descriptors', callType: 'async', callId: number | string });
+// incremental update: added/changed descriptors and the IDs of the removed ones
+export type RPC_DescriptorsUpdateMessage = RPC_Marker & {
+    action: 'descriptors_update',
+    objects: ObjectDescriptors, classes: ClassDescriptors,
+    removedObjects: string[], removedClasses: string[]
+};
 
 // function call messages
-export type RPC_FnCallMessageBase = RPC_Marker & { objId: string, args: any[] };
+//  - "trace" identifies the span of the call on the calling side, if tracing is on
+export type RPC_FnCallMessageBase = RPC_Marker & { objId: string, args: any[], trace?: TraceContext };
 //  - 3 types (void, sync, async), only async needs a callId for correlating the response message
 export type RPC_VoidFnCallMessage = RPC_FnCallMessageBase & { callType: 'void' };
 export type RPC_SyncFnCallMessage = RPC_FnCallMessageBase & { callType: 'sync' };
@@ -42,9 +62,24 @@ export type RPC_SyncFnResultMessage = RPC_FnResultMessageBase & { callType: 'syn
 export type RPC_AsyncFnResultMessage = RPC_FnResultMessageBase & { callType: 'async', callId: number | string };
 export type RPC_FnResultMessage = RPC_SyncFnResultMessage | RPC_AsyncFnResultMessage;
 
+// cancels an async call
+export type RPC_FnCancelMessage = RPC_Marker & { action: 'fn_cancel', callId: number | string };
+
 export type RPC_ObjectDiedMessage = RPC_Marker & { action: 'obj_died', objId: string };
+// the host has revoked objects/classes, their proxies must not be used anymore
+export type RPC_ObjectRevokedMessage = RPC_Marker & { action: 'obj_revoked', objIds: string[], classIds: string[] };
+// events of host objects: the other side subscribes once per object and event, and the host sends the events until it unsubscribes
+export type RPC_EventSubscribeMessage = RPC_Marker & { action: 'event_sub', objId: string, event: string };
+export type RPC_EventUnsubscribeMessage = RPC_Marker & { action: 'event_unsub', objId: string, event: string };
+export type RPC_EventMessage = RPC_Marker & { action: 'event', objId: string, event: string, args: any[] };
+
+// the new value of a live property, pushed by the host
+export type RPC_PropChangedMessage = RPC_Marker & { action: 'prop_changed', objId: string, prop: string, value: any };
+
 export type RPC_AsyncCallbackCallMessage = RPC_Marker & { action: 'async_fn', objId: string, args: any[] };
 
 // the generic message type
-export type RPC_Message = RPC_GetDescriptorsMessage | RPC_DescriptorsResultMessage |
-    RPC_AnyCallMessage | RPC_FnResultMessage | RPC_AsyncCallbackCallMessage | RPC_ObjectDiedMessage;
+export type RPC_Message = RPC_HandshakeMessage | RPC_HandshakeResultMessage | RPC_GetDescriptorsMessage | RPC_DescriptorsResultMessage | RPC_DescriptorsUpdateMessage |
+    RPC_GetObjectDescriptorsMessage | RPC_ObjectDescriptorsResultMessage |
+    RPC_AnyCallMessage | RPC_FnResultMessage | RPC_FnCancelMessage | RPC_AsyncCallbackCallMessage | RPC_ObjectDiedMessage | RPC_ObjectRevokedMessage |
+    RPC_EventSubscribeMessage | RPC_EventUnsubscribeMessage | RPC_EventMessage | RPC_PropChangedMessage;
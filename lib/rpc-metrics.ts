@@ -0,0 +1,195 @@
+/**
+ * Runtime metrics of the RPC traffic and the registries. See [[SuperRPCOptions.metrics]].
+ * @module
+ */
+
+import type { FunctionReturnBehavior } from './rpc-descriptor-types';
+import type { RPC_Message } from './rpc-message-types';
+import type { SpanInfo } from './rpc-tracing';
+
+export interface MetricsOptions {
+    /**
+     * If set, a snapshot is emitted with the `metrics` event (see [[SuperRPCEvents]]) periodically,
+     * every `interval` milliseconds while the service is connected.
+     */
+    interval?: number;
+
+    /**
+     * The upper bounds (in milliseconds) of the latency histogram buckets.
+     * @default [1, 5, 10, 50, 100, 500, 1000, 5000]
+     */
+    latencyBuckets?: number[];
+}
+
+/**
+ * A latency histogram. `buckets[i]` counts the values less than or equal to `bounds[i]`,
+ * the last bucket counts the values above all bounds.
+ */
+export interface Histogram {
+    bounds: number[];
+    buckets: number[];
+    count: number;
+    sum: number;
+    min: number;
+    max: number;
+}
+
+export interface CallStats {
+    count: number;
+    errors: number;
+    latency: Histogram;
+}
+
+export interface MessageStats {
+    count: number;
+
+    /**
+     * The size of the messages, measured as UTF-8 encoded JSON.
+     */
+    bytes: number;
+
+    /**
+     * Message counts by action, e.g. `obj_died`.
+     */
+    actions: { [action: string]: number };
+}
+
+export interface MetricsSnapshot {
+    /**
+     * When the snapshot was taken and since when the metrics are collected (`Date.now()` timestamps).
+     * Rates can be calculated from the counters and the elapsed time, or from two snapshots.
+     */
+    timestamp: number;
+    since: number;
+
+    /**
+     * Call statistics per member. The key is `objId.prop` for registered objects, `classId#prop` for instances of
+     * registered classes and `objId` for functions.
+     * - outgoing - calls made through proxies, the latency is the round trip time
+     * - incoming - calls served by host objects, the latency is the time spent serving the call
+     */
+    calls: {
+        outgoing: { [member: string]: CallStats };
+        incoming: { [member: string]: CallStats };
+    };
+
+    /**
+     * Round trip latency of the outgoing sync/async calls.
+     */
+    latency: { [callType in Exclude<FunctionReturnBehavior, 'void'>]: Histogram };
+
+    messages: {
+        sent: MessageStats;
+        received: MessageStats;
+    };
+
+    /**
+     * Released objects: `sent` - proxy objects released on this side, `received` - host objects released by the other side.
+     */
+    objDied: { sent: number; received: number };
+
+    pendingAsyncCalls: number;
+    hostObjects: number;
+    proxyObjects: number;
+}
+
+/**
+ * The current sizes of the registries, provided by [[SuperRPC]].
+ */
+export type MetricsGauges = Pick<MetricsSnapshot, 'pendingAsyncCalls' | 'hostObjects' | 'proxyObjects'>;
+
+const defaultLatencyBuckets = [1, 5, 10, 50, 100, 500, 1000, 5000];
+
+/**
+ * Collects the metrics - **used internally** by [[SuperRPC]], see [[SuperRPC.getMetrics]].
+ */
+export class MetricsCollector {
+    private readonly since = Date.now();
+    private readonly bounds: number[];
+    private readonly outgoing = new Map<string, CallStats>();
+    private readonly incoming = new Map<string, CallStats>();
+    private readonly latency: MetricsSnapshot['latency'];
+    private readonly sent: MessageStats = { count: 0, bytes: 0, actions: {} };
+    private readonly received: MessageStats = { count: 0, bytes: 0, actions: {} };
+    private readonly encoder = new TextEncoder();
+
+    constructor(options: MetricsOptions = {}) {
+        this.bounds = [...(options.latencyBuckets ?? defaultLatencyBuckets)].sort((a, b) => a - b);
+        this.latency = { sync: this.createHistogram(), async: this.createHistogram() };
+    }
+
+    recordCall(info: SpanInfo, duration: number, success: boolean) {
+        const stats = info.kind === 'client' ? this.outgoing : this.incoming;
+        const member = !info.prop ? info.objId : info.classId ? `${info.classId}#${info.prop}` : `${info.objId}.${info.prop}`;
+
+        let callStats = stats.get(member);
+        if (!callStats) stats.set(member, callStats = { count: 0, errors: 0, latency: this.createHistogram() });
+        callStats.count++;
+        if (!success) callStats.errors++;
+        addToHistogram(callStats.latency, duration);
+
+        if (info.kind === 'client' && info.callType !== 'void') {
+            addToHistogram(this.latency[info.callType], duration);
+        }
+    }
+
+    recordMessage(direction: 'sent' | 'received', message: RPC_Message) {
+        const stats = this[direction];
+        stats.count++;
+        stats.bytes += this.measure(message);
+        const action = typeof message === 'object' && message?.action;
+        if (action) stats.actions[action] = (stats.actions[action] ?? 0) + 1;
+    }
+
+    snapshot(gauges: MetricsGauges): MetricsSnapshot {
+        return {
+            timestamp: Date.now(),
+            since: this.since,
+            calls: {
+                outgoing: cloneStats(this.outgoing),
+                incoming: cloneStats(this.incoming)
+            },
+            latency: { sync: cloneHistogram(this.latency.sync), async: cloneHistogram(this.latency.async) },
+            messages: {
+                sent: { ...this.sent, actions: { ...this.sent.actions } },
+                received: { ...this.received, actions: { ...this.received.actions } }
+            },
+            objDied: { sent: this.sent.actions.obj_died ?? 0, received: this.received.actions.obj_died ?? 0 },
+            ...gauges
+        };
+    }
+
+    private createHistogram(): Histogram {
+        return { bounds: this.bounds, buckets: new Array(this.bounds.length + 1).fill(0), count: 0, sum: 0, min: 0, max: 0 };
+    }
+
+    private measure(message: RPC_Message) {
+        try {
+            return this.encoder.encode(JSON.stringify(message) ?? '').length;
+        } catch {
+            // e.g. a channel that can send non-JSON values
+            return 0;
+        }
+    }
+}
+
+function addToHistogram(histogram: Histogram, value: number) {
+    const idx = histogram.bounds.findIndex(bound => value <= bound);
+    histogram.buckets[idx < 0 ? histogram.bounds.length : idx]++;
+    histogram.min = histogram.count ? Math.min(histogram.min, value) : value;
+    histogram.max = histogram.count ? Math.max(histogram.max, value) : value;
+    histogram.count++;
+    histogram.sum += value;
+}
+
+function cloneHistogram(histogram: Histogram): Histogram {
+    return { ...histogram, buckets: [...histogram.buckets] };
+}
+
+function cloneStats(stats: Map<string, CallStats>) {
+    const result: { [member: string]: CallStats } = {};
+    for (const [member, { count, errors, latency }] of stats) {
+        result[member] = { count, errors, latency: cloneHistogram(latency) };
+    }
+    return result;
+}
@@ -0,0 +1,144 @@
+/**
+ * Types that describe proxy objects/functions/classes, based on the type of the host object and its descriptor.
+ *
+ * For accurate types the descriptor has to be declared with a `const` type, so the member names and
+ * return behaviors are known to the compiler:
+ * ```ts
+ * export const windowDescriptor = {
+ *     functions: ['getBounds', { name: 'isVisible', returns: 'sync' }],
+ *     readonlyProperties: ['id']
+ * } as const;
+ *
+ * const win = rpc.getProxyObject<MyWindow, typeof windowDescriptor>('win');
+ * await win.getBounds();   // Promise<Rectangle>
+ * win.isVisible();         // boolean
+ * ```
+ * @module
+ */
+
+import type { CallOptions } from './super-rpc';
+import type {
+    ClassDescriptor, FunctionDescriptor, FunctionReturnBehavior, ObjectDescriptor
+} from './rpc-descriptor-types';
+
+type AnyFunction = (...args: any[]) => any;
+type AnyConstructor = new (...args: any[]) => any;
+
+type IsAny<T> = 0 extends (1 & T) ? true : false;
+
+type ElementOf<TList> = TList extends readonly (infer E)[] ? E : never;
+
+/**
+ * The member name of an entry in `functions`/`proxiedProperties`: either the string itself or its `name`.
+ */
+type NameOf<TEntry> = TEntry extends string ? TEntry : TEntry extends { name: infer N } ? N : never;
+
+/**
+ * Finds the descriptor object of a member in a list, `never` if the member is listed by name only.
+ */
+type EntryOf<TList, K> = Extract<ElementOf<TList>, { name: K }>;
+
+type ReturnBehaviorOf<TDescriptor, TDefault extends FunctionReturnBehavior> =
+    [TDescriptor] extends [never] ? TDefault :
+    TDescriptor extends { returns: infer R } ? R : TDefault;
+
+/**
+ * The type of a value as it arrives on the other side: `AsyncIterable`s and `ReadableStream`s arrive as async iterators.
+ */
+export type Received<T> = T extends ReadableStream<infer C> | AsyncIterable<infer C> ? AsyncIterableIterator<C> : T;
+
+/**
+ * A proxy function for a function of type `F`, with the given return behavior:
+ * - 'async' - returns a Promise and accepts [[CallOptions]] as an extra last argument
+ * - 'sync'  - returns the result as is
+ * - 'void'  - returns nothing
+ */
+export type ProxyFunction<F, TReturn = 'async'> =
+    F extends (...args: infer A) => infer R
+        ? TReturn extends 'sync' ? (...args: A) => Received<R>
+        : TReturn extends 'void' ? (...args: A) => void
+        : ((...args: A) => Promise<Received<Awaited<R>>>) & ((...args: [...A, CallOptions]) => Promise<Received<Awaited<R>>>)
+        : never;
+
+type ProxyFunctions<T, TFunctions> = {
+    [K in NameOf<ElementOf<TFunctions>> & keyof T]: ProxyFunction<T[K], ReturnBehaviorOf<EntryOf<TFunctions, K>, 'async'>>
+};
+
+type ReadonlyProps<T, TProps> = {
+    readonly [K in ElementOf<TProps> & keyof T]: T[K]
+};
+
+type ProxiedPropertyType<TValue, TDescriptor> =
+    [TDescriptor] extends [never] ? TValue :
+    TDescriptor extends { live: true } ? TValue :
+    TDescriptor extends { get: { returns: 'async' } } ? Promise<TValue> : TValue;
+
+type IsReadonlyProp<TDescriptor> = [TDescriptor] extends [never] ? false : TDescriptor extends { readonly: true } ? true : false;
+
+type ProxiedProps<T, TProps> = {
+    readonly [K in NameOf<ElementOf<TProps>> & keyof T as IsReadonlyProp<EntryOf<TProps, K>> extends true ? K : never]:
+        ProxiedPropertyType<T[K], EntryOf<TProps, K>>
+} & {
+    -readonly [K in NameOf<ElementOf<TProps>> & keyof T as IsReadonlyProp<EntryOf<TProps, K>> extends true ? never : K]:
+        ProxiedPropertyType<T[K], EntryOf<TProps, K>>
+};
+
+/**
+ * The event functions of a proxy object, see [[ObjectDescriptor.events]].
+ */
+export interface ProxyEventFunctions<TEvent extends string> {
+    on(event: TEvent, listener: (...args: any[]) => void): this;
+    off(event: TEvent, listener: (...args: any[]) => void): this;
+    once(event: TEvent, listener: (...args: any[]) => void): this;
+    /**
+     * Async iterator of the events, each item is the array of the event arguments.
+     */
+    events(event: TEvent): AsyncIterableIterator<any[]>;
+}
+
+/**
+ * Objects with live properties emit the `propertyChanged` event, see [[PropertyDescriptor.live]].
+ */
+type LivePropertyEvent<TProps> = [Extract<ElementOf<TProps>, { live: true }>] extends [never] ? never : 'propertyChanged';
+
+type ProxyEvents<TEvent> = [TEvent] extends [never] ? unknown : ProxyEventFunctions<TEvent & string>;
+
+/**
+ * A proxy object for a host object of type `T` described by `TDescriptor`.
+ * Only the members listed in the descriptor are exposed.
+ */
+export type ProxyObject<T, TDescriptor extends ObjectDescriptor | undefined> =
+    TDescriptor extends ObjectDescriptor
+        ? ProxyEvents<ElementOf<TDescriptor['events']> | LivePropertyEvent<TDescriptor['proxiedProperties']>> & ProxyFunctions<T, TDescriptor['functions']> &
+            ReadonlyProps<T, TDescriptor['readonlyProperties']> & ProxiedProps<T, TDescriptor['proxiedProperties']>
+        : unknown;
+
+type ProxyConstructor<TClass extends AnyConstructor, TDescriptor extends ClassDescriptor> =
+    TDescriptor['ctor'] extends FunctionDescriptor
+        ? new (...args: ConstructorParameters<TClass>) => ReturnBehaviorOf<TDescriptor['ctor'], 'sync'> extends 'async'
+            ? Promise<ProxyObject<InstanceType<TClass>, TDescriptor['instance']>>
+            : ProxyObject<InstanceType<TClass>, TDescriptor['instance']>
+        : unknown;
+
+/**
+ * A proxy class for a host class of type `TClass` described by `TDescriptor`.
+ */
+export type ProxyClass<TClass extends AnyConstructor, TDescriptor extends ClassDescriptor> =
+    ProxyConstructor<TClass, TDescriptor> & ProxyObject<TClass, TDescriptor['static']> & {
+        prototype: ProxyObject<InstanceType<TClass>, TDescriptor['instance']>;
+    };
+
+/**
+ * The type of the proxy returned by [[SuperRPC.getProxyObject]]. `any` if the types are not specified.
+ */
+export type ProxyType<T, TDescriptor extends ObjectDescriptor | FunctionDescriptor> =
+    IsAny<TDescriptor> extends true ? any :
+    TDescriptor extends FunctionDescriptor & { type: 'function' } ? ProxyFunction<T, ReturnBehaviorOf<TDescriptor, 'async'>> :
+    TDescriptor extends ObjectDescriptor ? ProxyObject<T, TDescriptor> :
+    T extends AnyFunction ? ProxyFunction<T, ReturnBehaviorOf<TDescriptor, 'async'>> : never;
+
+/**
+ * The type of the proxy class returned by [[SuperRPC.getProxyClass]]. `AnyConstructor` if the types are not specified.
+ */
+export type ProxyClassType<TClass extends AnyConstructor, TDescriptor extends ClassDescriptor> =
+    IsAny<TDescriptor> extends true ? AnyConstructor : ProxyClass<TClass, TDescriptor>;
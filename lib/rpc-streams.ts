@@ -0,0 +1,118 @@
+/**
+ * Sending `AsyncIterable`s and `ReadableStream`s - **used internally** by [[SuperRPC]].
+ *
+ * The sender registers a "source" host object with `next`/`return` methods, the receiver gets an async iterator
+ * that calls these on demand: a chunk is only produced when the receiver asks for it.
+ * @module
+ * @internal
+ */
+
+import type { ObjectDescriptor } from './rpc-descriptor-types';
+
+/**
+ * The host object that serves the chunks of an async iterable/stream.
+ */
+export interface AsyncIteratorSource {
+    next(): Promise<IteratorResult<unknown>>;
+    return(value?: unknown): Promise<IteratorResult<unknown>>;
+}
+
+/**
+ * A source may be idle for any time (e.g. a log being tailed), so its calls never time out.
+ */
+export const asyncIteratorSourceDescriptor: ObjectDescriptor = {
+    functions: [{ name: 'next', returns: 'async', timeout: 0 }, { name: 'return', returns: 'async', timeout: 0 }]
+};
+
+function isReadableStream(obj: any): obj is ReadableStream {
+    return typeof obj?.getReader === 'function';
+}
+
+/**
+ * Returns `true` for objects that are sent as async iterators.
+ */
+export function isAsyncIterable(obj: any): obj is AsyncIterable<unknown> | ReadableStream {
+    return isReadableStream(obj) || typeof obj?.[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Creates the source for an async iterable/stream. The iteration is only started by the first `next()` call.
+ * `return()` ends the current iteration (if any), the next `next()` call starts a new one.
+ */
+export function createAsyncIteratorSource(obj: AsyncIterable<unknown> | ReadableStream): AsyncIteratorSource {
+    let iterator: AsyncIterator<unknown> | undefined;
+    const getIterator = () => iterator ?? (iterator = isReadableStream(obj) ? readStream(obj) : obj[Symbol.asyncIterator]());
+
+    return {
+        next: async () => {
+            const current = getIterator();
+            const result = await current.next();
+            // a finished iterator does not need to be returned
+            if (result.done && iterator === current) iterator = undefined;
+            return result;
+        },
+        return: async (value?: unknown) => {
+            const current = iterator;
+            iterator = undefined;
+            return (await current?.return?.(value)) ?? { done: true, value };
+        }
+    };
+}
+
+/**
+ * Reads a stream with a reader (not all environments support iterating a `ReadableStream` directly).
+ */
+function readStream(stream: ReadableStream): AsyncIterator<unknown> {
+    const reader = stream.getReader();
+    return {
+        async next() {
+            const result = await reader.read();
+            if (!result.done) return { done: false, value: result.value };
+            reader.releaseLock();
+            return { done: true, value: undefined };
+        },
+        async return(value?: unknown) {
+            await reader.cancel();
+            reader.releaseLock();
+            return { done: true, value };
+        }
+    };
+}
+
+/**
+ * Creates the async iterator on the receiving side, that pulls the chunks from the proxy of the source.
+ * @param release Called when the iteration is finished (done, returned or failed), to release the source.
+ */
+export function createProxyAsyncIterator(source: AsyncIteratorSource, release: () => void): AsyncIterableIterator<unknown> {
+    let finished = false;
+    const finish = <T>(result: T) => {
+        if (!finished) {
+            finished = true;
+            release();
+        }
+        return result;
+    };
+
+    return {
+        async next() {
+            if (finished) return { done: true, value: undefined };
+            try {
+                const result = await source.next();
+                return result.done ? finish(result) : result;
+            } catch (err) {
+                throw finish(err);
+            }
+        },
+        async return(value?: unknown) {
+            if (finished) return { done: true, value };
+            try {
+                return finish(await source.return(value));
+            } catch (err) {
+                throw finish(err);
+            }
+        },
+        [Symbol.asyncIterator]() {
+            return this;
+        }
+    };
+}
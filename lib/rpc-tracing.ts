@@ -0,0 +1,104 @@
+/**
+ * Tracing of calls across both sides of the channel. See [[SuperRPCOptions.traceSink]].
+ *
+ * Each call is a span: a "client" span on the calling side and a "server" span on the host side,
+ * correlated by the trace/span ids sent along with the call message.
+ * @module
+ */
+
+import type { FunctionReturnBehavior } from './rpc-descriptor-types';
+import type { RPC_AnyCallAction } from './rpc-message-types';
+
+/**
+ * Identifies a span within a trace. Sent along with the call messages.
+ */
+export interface TraceContext {
+    traceId: string;
+    spanId: string;
+}
+
+/**
+ * A finished span.
+ */
+export interface Span extends TraceContext {
+    /**
+     * The span of the call that caused this call, if any.
+     */
+    parentSpanId?: string;
+
+    /**
+     * 'client' - the call made through a proxy, 'server' - the call served by a host object.
+     */
+    kind: 'client' | 'server';
+
+    action: RPC_AnyCallAction;
+    callType: FunctionReturnBehavior;
+    objId: string;
+    prop?: string;
+
+    /**
+     * The class of the object, if it is an instance of a registered class.
+     */
+    classId?: string;
+
+    /**
+     * The peer on the other side, see [[RPCChannel.peerId]].
+     */
+    peerId?: string;
+
+    /**
+     * Timestamps in milliseconds (`Date.now()`).
+     */
+    startTime: number;
+    endTime: number;
+    duration: number;
+
+    success: boolean;
+    error?: unknown;
+}
+
+/**
+ * Receives the finished spans, e.g. to export them to a tracing backend.
+ */
+export type SpanSink = (span: Span) => void;
+
+/**
+ * What a span is about, see [[Span]].
+ */
+export type SpanInfo = Pick<Span, 'kind' | 'action' | 'callType' | 'objId' | 'prop' | 'classId' | 'peerId'>;
+
+/**
+ * A span that has been started, but not finished yet.
+ */
+export interface ActiveSpan {
+    /**
+     * Not set if the call is only measured, not traced.
+     */
+    readonly context?: TraceContext;
+    end(success: boolean, error?: unknown): void;
+}
+
+/**
+ * Starts a span as the child of `parent`, or as the root of a new trace.
+ * The span is passed to the `sink` when it ends (only the first time).
+ */
+export function startSpan(info: SpanInfo, generateId: () => string, parent?: TraceContext, sink?: SpanSink): ActiveSpan {
+    const context = { traceId: parent?.traceId ?? generateId(), spanId: generateId() };
+    const startTime = Date.now();
+    let ended = false;
+
+    return {
+        context,
+        end(success, error) {
+            if (ended) return;
+            ended = true;
+            const endTime = Date.now();
+            sink?.({
+                ...info, ...context,
+                parentSpanId: parent?.spanId,
+                startTime, endTime, duration: endTime - startTime,
+                success, error
+            });
+        }
+    };
+}
@@ -0,0 +1,128 @@
+/**
+ * Schemas to validate the arguments and results of calls.
+ *
+ * @see [[ArgumentDescriptor.schema]], [[FunctionDescriptor.resultSchema]], [[PropertyDescriptor.schema]]
+ * @module
+ */
+
+import { FunctionDescriptor, getArgumentDescriptor } from './rpc-descriptor-types';
+
+/**
+ * The type of a value. Unlike `typeof`, `null` is 'null' and arrays are 'array' (not 'object').
+ * 'any' accepts every value.
+ */
+export type SchemaType = 'any' | 'string' | 'number' | 'boolean' | 'bigint' | 'function' | 'object' | 'array' | 'null' | 'undefined';
+
+/**
+ * Describes the accepted values.
+ */
+export interface TypeSchema {
+    /**
+     * @default 'any'
+     */
+    type?: SchemaType;
+
+    /**
+     * Accept `undefined` too, e.g. for optional arguments/properties.
+     * @default false
+     */
+    optional?: boolean;
+
+    /**
+     * Accept `null` too.
+     * @default false
+     */
+    nullable?: boolean;
+
+    /**
+     * The value has to be one of these.
+     */
+    enum?: readonly (string | number | boolean | null)[];
+
+    /**
+     * The schemas of the properties of an 'object'.
+     */
+    properties?: { readonly [key: string]: Schema };
+
+    /**
+     * If `false`, an 'object' can not have properties that are not listed in `properties`.
+     * @default true
+     */
+    additionalProperties?: boolean;
+
+    /**
+     * The schema of the elements of an 'array'.
+     */
+    items?: Schema;
+}
+
+/**
+ * A [[TypeSchema]], or just the type for short.
+ */
+export type Schema = SchemaType | TypeSchema;
+
+export interface ValidationIssue {
+    /**
+     * Where the invalid value is, e.g. `args[0].width`.
+     */
+    path: string;
+    message: string;
+}
+
+/**
+ * Validates a value against the schema and returns the problems found (empty if the value is valid).
+ */
+export function validateValue(value: unknown, schema: Schema, path = 'value'): ValidationIssue[] {
+    const {
+        type = 'any', optional, nullable, enum: values, properties, additionalProperties = true, items
+    }: TypeSchema = typeof schema === 'string' ? { type: schema } : schema;
+
+    if (value === undefined && optional) return [];
+    if (value === null && nullable) return [];
+
+    const valueType = typeOf(value);
+    if (type !== 'any' && valueType !== type) {
+        return [{ path, message: `expected ${type}, got ${valueType}` }];
+    }
+    if (values && !values.includes(value as any)) {
+        return [{ path, message: `expected one of ${values.map(item => JSON.stringify(item)).join(', ')}` }];
+    }
+
+    const issues: ValidationIssue[] = [];
+    if (valueType === 'object') {
+        const obj = value as Record<string, unknown>;
+        for (const [key, propSchema] of Object.entries(properties ?? {})) {
+            issues.push(...validateValue(obj[key], propSchema, `${path}.${key}`));
+        }
+        if (properties && !additionalProperties) {
+            for (const key of Object.keys(obj)) {
+                if (!(key in properties)) issues.push({ path: `${path}.${key}`, message: 'unexpected property' });
+            }
+        }
+    } else if (valueType === 'array' && items) {
+        (value as unknown[]).forEach((item, idx) => issues.push(...validateValue(item, items, `${path}[${idx}]`)));
+    }
+    return issues;
+}
+
+/**
+ * Validates the arguments of a call against the schemas in the [[ArgumentDescriptor]]s of the function.
+ */
+export function validateArguments(func: FunctionDescriptor | undefined, args: unknown[]): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    if (!func?.arguments) return issues;
+
+    // missing arguments are validated as well (as `undefined`)
+    const count = Math.max(args.length, ...func.arguments.map(arg => (arg.idx ?? -1) + 1));
+    for (let idx = 0; idx < count; idx++) {
+        const schema = getArgumentDescriptor(func, idx)?.schema;
+        if (schema) issues.push(...validateValue(args[idx], schema, `args[${idx}]`));
+    }
+    return issues;
+}
+
+function typeOf(value: unknown): SchemaType {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return <SchemaType>typeof value;
+}
@@ -1,20 +1,42 @@
-import { rpc_disposed, ProxyObjectRegistry } from './proxy-object-registry';
+import { rpc_disposed, rpc_disposeFunc, ProxyObjectRegistry } from './proxy-object-registry';
 import {
     ClassDescriptor, ClassDescriptors, Descriptor,
     FunctionDescriptor, FunctionReturnBehavior,
-    getArgumentDescriptor, getFunctionDescriptor, getPropertyDescriptor, getPropName,
-    isFunctionDescriptor, ObjectDescriptor, ObjectDescriptors, ObjectDescriptorWithProps
+    getArgumentDescriptor, getFunctionDescriptor, getLivePropertyNames, getPropertyDescriptor, getPropName,
+    isFunctionDescriptor, isMemberExposed, ObjectDescriptor, ObjectDescriptors, ObjectDescriptorWithProps
 } from './rpc-descriptor-types';
 import type {
     RPC_AnyCallAction, RPC_AnyCallMessage,
-    RPC_AsyncCallAction, RPC_DescriptorsResultMessage,
-    RPC_Message, RPC_SyncCallAction, RPC_VoidCallAction
+    RPC_AsyncCallAction, RPC_AsyncFnCallMessage, RPC_DescriptorsResultMessage, RPC_DescriptorsUpdateMessage,
+    RPC_GetObjectDescriptorsMessage, RPC_HandshakeResultMessage, RPC_ObjectDescriptorsResultMessage,
+    RPC_Message, RPC_ObjectRevokedMessage, RPC_PropGetMessage, RPC_PropSetMessage, RPC_RpcCallMessage, RPC_SyncCallAction, RPC_VoidCallAction
 } from './rpc-message-types';
+import {
+    RPCAbortError, RPCAccessError, RPCAuthorizationError, RPCChannelClosedError, RPCProtocolError, RPCRevokedError, RPCTimeoutError, RPCValidationError
+} from './rpc-errors';
+import { HandshakeInfo, libraryVersion, ProtocolExtension, protocolExtensions, protocolVersion } from './rpc-handshake';
+import type { ProxyClassType, ProxyType } from './rpc-proxy-types';
+import { Schema, validateArguments, validateValue, ValidationIssue } from './rpc-validation';
+import { ActiveSpan, SpanInfo, SpanSink, startSpan, TraceContext } from './rpc-tracing';
+import { MetricsCollector, MetricsOptions, MetricsSnapshot } from './rpc-metrics';
+import { builtinValueTypes, ValueType } from './rpc-codec';
+import { addHostEventListener, createEventIterator, eventsEnded, onceListenerOf } from './rpc-events';
+import {
+    AsyncIteratorSource, asyncIteratorSourceDescriptor, createAsyncIteratorSource, createProxyAsyncIterator, isAsyncIterable
+} from './rpc-streams';
 
 
 type PromiseCallbacks = {
     resolve: (data?: any) => void;
     reject: (data?: any) => void;
+    /**
+     * Called when the call is settled, e.g. to clear the timeout timer.
+     */
+    cleanup?: () => void;
+    /**
+     * The peer the call was sent to, see [[RPCChannel.peerId]].
+     */
+    peerId?: string;
 };
 
 export type AnyConstructor = new (...args: any[]) => any;
@@ -23,17 +45,310 @@ export type AnyFunction = ((...args: any[]) => any);
 type ClassRegistryEntry = {
     descriptor: ClassDescriptor;
     classCtor: AnyConstructor;
+    options?: HostObjectOptions;
 };
 
 type HostObjectRegistryEntry = {
     target: any;
     descriptor: FunctionDescriptor | ObjectDescriptor;
+    /**
+     * If the object was registered implicitly, by sending it to the other side, these are the peers it was sent to.
+     * It is released when all of them have released it (or disconnected).
+     */
+    peers?: Set<string>;
+    options?: HostObjectOptions;
+};
+
+/**
+ * The state we keep about a peer on the other side of the channel.
+ */
+type PeerState = {
+    readonly peerId: string;
+
+    /**
+     * The channel to use for reaching the peer.
+     */
+    channel: RPCChannel;
+
+    remoteObjectDescriptors?: ObjectDescriptors;
+    remoteClassDescriptors?: ClassDescriptors;
+    remoteDescriptorsCallbacks?: PromiseCallbacks;
+
+    /**
+     * What the peer told about itself in the handshake, see [[SuperRPC.handshake]].
+     */
+    remoteInfo?: HandshakeInfo;
+
+    readonly proxyObjectRegistry: ProxyObjectRegistry;
+    readonly proxyClassRegistry: Map<string, AnyConstructor>;
+
+    /**
+     * Abort controllers of the async calls being served for this peer, by callId.
+     */
+    readonly hostCallControllers: Map<number|string, AbortController>;
+
+    /**
+     * The listeners of the events of proxy objects, by objId and event name.
+     */
+    readonly eventListeners: Map<string, Map<string, Set<AnyFunction>>>;
+
+    /**
+     * The events of host objects the peer is subscribed to: the functions that remove the listeners, by objId and event name.
+     */
+    readonly eventSubscriptions: Map<string, Map<string, () => void>>;
+
+    /**
+     * Set while the class descriptors needed by a received message are fetched: that message and the ones arriving
+     * in the meantime are processed afterwards, in order.
+     */
+    inboundQueue?: InboundMessage[];
+};
+
+/**
+ * A received message along with what came with it from the channel.
+ */
+type InboundMessage = { message: RPC_Message, replyChannel: RPCChannel, context?: any };
+
+/**
+ * The state of serializing the values of a message.
+ */
+type SerializationContext = {
+    /**
+     * The objects that occur more than once, these are sent as refs.
+     */
+    readonly shared: Set<object>;
+    readonly ids: Map<object, number>;
+
+    /**
+     * The objects being serialized (not plain objects/arrays), to detect cycles.
+     */
+    readonly pending: Set<object>;
 };
 
+/**
+ * The objects deserialized from refs by ID.
+ */
+type DeserializationRefs = Map<number, unknown>;
+
+/**
+ * The ID of the peer at the other end of the connected channel, when the reply channel has no `peerId`.
+ */
+const defaultPeerId = '';
+
+/**
+ * The timeout (in milliseconds) of the requests that the library makes on its own, if there is no [[SuperRPCOptions.callTimeout]].
+ */
+const defaultRequestTimeout = 10000;
+
 
 const hostObjectId = Symbol('hostObjectId');
 const proxyObjectId = Symbol('proxyObjectId');
 const classIdSym = Symbol('classId');
+const callOptionsSym = Symbol('callOptions');
+const traceParentSym = Symbol('traceParent');
+const revokedSym = Symbol('revoked');
+const liveValuesSym = Symbol('liveValues');
+const liveSetterSym = Symbol('liveSetter');
+
+/**
+ * The event emitted by proxy objects when a live property changes, see [[PropertyDescriptor.live]].
+ */
+const propertyChangedEvent = 'propertyChanged';
+
+const builtinErrorClasses: AnyConstructor[] = [
+    Error, EvalError, RangeError, ReferenceError, SyntaxError, TypeError, URIError,
+    RPCTimeoutError, RPCChannelClosedError, RPCAbortError, RPCValidationError, RPCAccessError, RPCAuthorizationError, RPCRevokedError,
+    RPCProtocolError
+];
+
+/**
+ * Members that are never accessible in strict mode, even if listed in a descriptor.
+ */
+const blockedMembers = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Options for the [[SuperRPC]] instance.
+ */
+export interface SuperRPCOptions {
+    /**
+     * The default timeout (in milliseconds) for async calls. If no reply arrives in time,
+     * the returned Promise is rejected with an [[RPCTimeoutError]].
+     * Can be overridden per function ([[FunctionDescriptor.timeout]]) and per call ([[callOptions]]).
+     *
+     * `0` or `undefined` means no timeout.
+     */
+    callTimeout?: number;
+
+    /**
+     * If `true`, the `stack` of errors is sent to the other side. See [[SuperRPC.registerErrorClass]].
+     * @default false
+     */
+    sendErrorStack?: boolean;
+
+    /**
+     * If `true`, the arguments of calls are validated against the schemas ([[ArgumentDescriptor.schema]])
+     * on this side too, before they are sent. Invalid calls throw (reject) with an [[RPCValidationError]] without sending anything.
+     * The host side always validates the arguments.
+     * @default false
+     */
+    validateArguments?: boolean;
+
+    /**
+     * If `true`, incoming calls can only access the members of host objects that are exposed by their descriptor:
+     * `functions` can be called, `proxiedProperties` can be read and (unless `readonly`) written,
+     * `readonlyProperties` can be read. `__proto__`, `constructor` and `prototype` are never accessible.
+     * Other calls are rejected with an [[RPCAccessError]].
+     * @default false
+     */
+    strict?: boolean;
+
+    /**
+     * Authorizes every incoming call, before the policy of the host object ([[HostObjectOptions.authorize]]).
+     */
+    authorize?: AuthorizationPolicy;
+
+    /**
+     * Decides if the caller has a capability that is required by an [[AuthorizationPolicy]].
+     * If not set, calls that require a capability are denied.
+     */
+    hasCapability?: (capability: string, call: CallContext) => boolean;
+
+    /**
+     * Turns on tracing: every call sent or served by this side is reported as a [[Span]] to the sink.
+     *
+     * The call messages carry the trace/span ids, so the spans of both sides can be correlated.
+     * Calls made while serving a call (synchronously, see [[SuperRPC.currentCallContext]]) and calls of
+     * remote functions received as arguments of a call (e.g. event listeners) are children of that call.
+     * Ids are propagated even if this side has no sink, as long as the other side sends them.
+     */
+    traceSink?: SpanSink;
+
+    /**
+     * Turns on collecting metrics, see [[SuperRPC.getMetrics]] and the `metrics` event ([[SuperRPCEvents]]).
+     * @default false
+     */
+    metrics?: boolean | MetricsOptions;
+
+    /**
+     * If `true`, registering a host object/function/class after the descriptors have been exchanged
+     * pushes its descriptor to the other side(s) (see [[SuperRPC.sendRemoteDescriptors]]).
+     * The registrations made in the same tick are sent in one message.
+     * @default false
+     */
+    autoSendDescriptors?: boolean;
+}
+
+/**
+ * The result of an [[AuthorizationPolicy]]: allow (`true`), deny (`false`),
+ * or allow only if the caller has the capability (see [[SuperRPCOptions.hasCapability]]).
+ */
+export type AuthorizationResult = boolean | { capability: string };
+
+/**
+ * Decides if an incoming call, or subscribing to an event (`event_sub`), is allowed.
+ * Denied calls are rejected with an [[RPCAuthorizationError]], denied subscriptions get no events.
+ *
+ * ```ts
+ * const policy: AuthorizationPolicy = ({ prop, context }) => prop === 'createWindow' ? { capability: 'windows' } : true;
+ * ```
+ */
+export type AuthorizationPolicy = (call: CallContext) => AuthorizationResult;
+
+/**
+ * Options for a registered host object/function/class.
+ */
+export interface HostObjectOptions {
+    /**
+     * Authorizes the incoming calls of this object. For a class it applies to the constructor,
+     * the static side and the instances too.
+     */
+    authorize?: AuthorizationPolicy;
+}
+
+/**
+ * Options for a single call. See [[callOptions]].
+ */
+export interface CallOptions {
+    /**
+     * Overrides the timeout (in milliseconds) of this async call. `0` means no timeout.
+     */
+    timeout?: number;
+
+    /**
+     * Cancels the async call when aborted. The returned Promise is rejected with an [[RPCAbortError]] immediately,
+     * and the other side is notified, so the host function can observe it through [[CallContext.signal]].
+     */
+    signal?: AbortSignal;
+}
+
+/**
+ * Describes the call that is currently being served on the host side. See [[SuperRPC.currentCallContext]].
+ */
+export interface CallContext {
+    /**
+     * The action of the call, or `event_sub` for subscribing to an event (only seen by an [[AuthorizationPolicy]]).
+     */
+    action: RPC_AnyCallAction | 'event_sub';
+    objId: string;
+
+    /**
+     * The member being accessed, or the name of the event for `event_sub`.
+     */
+    prop?: string;
+
+    /**
+     * The context object passed in by the channel along with the message (e.g. the `IpcMainEvent` in Electron).
+     */
+    context?: any;
+
+    /**
+     * The peer that sent the call, see [[RPCChannel.peerId]].
+     */
+    peerId?: string;
+
+    /**
+     * Aborted when the caller cancels the call (or the channel is closed). Only available for async calls.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * The span of the call, if tracing is on. See [[SuperRPCOptions.traceSink]].
+     */
+    trace?: TraceContext;
+}
+
+/**
+ * Marks an object as call options. Pass the result as the *last* argument to an async proxy function
+ * and it will be used to configure the call instead of being sent to the other side.
+ *
+ * ```ts
+ * const bounds = await win.getBounds(callOptions({ timeout: 500 }));
+ * ```
+ */
+export function callOptions(options: CallOptions): CallOptions {
+    // a copy, the options object of the caller may be reused or frozen
+    return Object.assign({ ...options }, { [callOptionsSym]: true });
+}
+
+function extractCallOptions(args: any[]): CallOptions | undefined {
+    if (args[args.length - 1]?.[callOptionsSym]) return args.pop();
+}
+
+/**
+ * Throws if a proxy function, or the proxy object it is called on, has been disposed or revoked.
+ */
+function checkNotDisposed(fn: any, scope: any, objId: string | null) {
+    if (fn[revokedSym] || scope?.[revokedSym]) throw new RPCRevokedError(objId ?? scope?.[proxyObjectId]);
+    if (fn[rpc_disposed] || scope?.[rpc_disposed]) throw new Error('Remote function has been disposed');
+}
+
+/**
+ * Compares two descriptors received from the other side, ignoring the property values sent along with them.
+ */
+function isSameDescriptor(descriptor1: object, descriptor2: object) {
+    const withoutValues = (descriptor: any) => JSON.stringify({ ...descriptor, props: undefined, liveProps: undefined });
+    return withoutValues(descriptor1) === withoutValues(descriptor2);
+}
 
 /**
  * The channel used for the communication.
@@ -43,66 +358,478 @@ const classIdSym = Symbol('classId');
  */
 export interface RPCChannel {
     /**
-     * Sends a message and returns the response synchronously.
+     * Sends a message and returns the response synchronously.
+     */
+    sendSync?: (message: RPC_Message) => any;
+
+    /**
+     * Sends a message asnychronously. The response will come via the `receive` callback function.
+     */
+    sendAsync?: (message: RPC_Message) => void;
+
+    /**
+     * Register a callback for when an async message arrives.
+     */
+    receive?: (callback: (message: RPC_Message, replyChannel?: RPCChannel, context?: any) => void) => void;
+
+    /**
+     * Register a callback for when the channel is closed (e.g. the other side is gone).
+     * The service then disconnects, see [[SuperRPC.disconnect]].
+     * For a reply channel with a [[peerId]], only that peer is disconnected (see [[SuperRPC.disconnectPeer]]).
+     */
+    onClose?: (callback: (reason?: any) => void) => void;
+
+    /**
+     * Identifies the peer at the other end of a reply channel.
+     *
+     * When one channel serves multiple peers (e.g. `ipcMain` in Electron serves all renderers), the reply channels
+     * should carry the ID of the sender. The service then keeps the remote descriptors and proxy objects
+     * of each peer separately, and it can call back into a specific peer, see [[SuperRPC.getProxyObject]].
+     */
+    peerId?: string;
+}
+
+/**
+ * The lifecycle events emitted by [[SuperRPC]]. See [[SuperRPC.on]].
+ */
+export interface SuperRPCEvents {
+    /**
+     * The service has been connected to a channel.
+     */
+    connect: (channel: RPCChannel) => void;
+
+    /**
+     * The service has been disconnected, either by calling [[SuperRPC.disconnect]] or by the channel closing.
+     */
+    disconnect: (reason?: any) => void;
+
+    /**
+     * The first message has arrived from a peer (identified by [[RPCChannel.peerId]]).
+     */
+    peerConnect: (peerId: string) => void;
+
+    /**
+     * A peer has been disconnected, see [[SuperRPC.disconnectPeer]].
+     */
+    peerDisconnect: (peerId: string, reason?: any) => void;
+
+    /**
+     * A periodic metrics snapshot, see [[MetricsOptions.interval]].
+     */
+    metrics: (snapshot: MetricsSnapshot) => void;
+
+    /**
+     * A debug hook: a message has been sent or received, including the responses of sync messages.
+     * Outbound messages are reported after, inbound messages before the interceptors (see [[SuperRPC.addInterceptor]]),
+     * i.e. as they are on the channel. The message must not be changed.
+     */
+    message: (message: RPC_Message, direction: 'inbound' | 'outbound', channel: RPCChannel) => void;
+
+    /**
+     * Remote descriptors have been received from a peer: either all of them (see [[SuperRPC.requestRemoteDescriptors]])
+     * or an update (see [[SuperRPCOptions.autoSendDescriptors]]).
+     */
+    remoteDescriptorsChange: (peerId: string, change: RemoteDescriptorsChange) => void;
+
+    /**
+     * The handshake with a peer is done, on both sides (see [[SuperRPC.handshake]]).
+     * `error` is set if the protocol versions differ.
+     */
+    handshake: (peerId: string, info: HandshakeInfo, error?: RPCProtocolError) => void;
+}
+
+/**
+ * The IDs of the remote objects/classes that have been added, changed or removed by a descriptors message.
+ *
+ * The proxy of a changed or removed object is disposed, [[SuperRPC.getProxyObject]] creates a new one
+ * for a changed object. The proxy class of a changed or removed class is disposed too, but its existing instances keep working.
+ */
+export interface RemoteDescriptorsChange {
+    addedObjects: string[];
+    changedObjects: string[];
+    removedObjects: string[];
+    addedClasses: string[];
+    changedClasses: string[];
+    removedClasses: string[];
+}
+
+/**
+ * The state of a peer, see [[SuperRPC.getDebugInfo]].
+ */
+export interface PeerDebugInfo {
+    handshake?: HandshakeInfo;
+    remoteObjectDescriptors?: ObjectDescriptors;
+    remoteClassDescriptors?: ClassDescriptors;
+    proxyObjectIds: string[];
+    proxyClassIds: string[];
+}
+
+/**
+ * The internal state of a [[SuperRPC]] instance, for debugging tools. See [[SuperRPC.getDebugInfo]].
+ */
+export interface RPCDebugInfo {
+    /**
+     * The state of each peer, by peer ID. The other end of the connected channel has the ID `''`.
+     */
+    peers: { [peerId: string]: PeerDebugInfo };
+    hostObjectIds: string[];
+    hostClassIds: string[];
+    pendingAsyncCalls: number;
+}
+
+/**
+ * Describes where a message intercepted by an [[RPCInterceptor]] is going or coming from.
+ */
+export interface InterceptorContext {
+    direction: 'inbound' | 'outbound';
+
+    /**
+     * The channel the message is sent on (outbound), or the reply channel of the message (inbound).
+     */
+    channel: RPCChannel;
+
+    /**
+     * The context passed in by the channel along with the message (inbound only).
+     */
+    context?: any;
+}
+
+/**
+ * Intercepts a message. Call `next` to pass the (possibly changed) message on, and return what it returns.
+ * Not calling `next` drops the message, throwing an error (or returning a rejected promise) rejects it:
+ * an inbound call fails with the error on the caller's side, other inbound messages are dropped.
+ *
+ * Note: `next` returns the response of synchronous messages (see [[RPCChannel.sendSync]]),
+ * so those can only be delayed by a channel that supports it.
+ */
+export type InterceptorFn = (message: RPC_Message, ctx: InterceptorContext, next: (message: RPC_Message) => any) => any;
+
+/**
+ * Intercepts the inbound and/or outbound messages, see [[SuperRPC.addInterceptor]].
+ *
+ * The response of a synchronous message goes through the `inbound` interceptors too.
+ */
+export interface RPCInterceptor {
+    inbound?: InterceptorFn;
+    outbound?: InterceptorFn;
+}
+
+/**
+ * The SuperRPC is the central piece. An instance must be created on both sides.
+ *
+ * Objects, functions or classes can be registered on the "host" side
+ * (see [[registerHostObject]], [[registerHostClass]]) and then functions/properties can be
+ * called from the "client" side (see [[getProxyObject]], [[getProxyClass]]).
+ *
+ * The RPC service is symmetric, so depending on the use-case (and the channel),
+ * both side can be "host" and "client" at the same time.
+ *
+ * The constructor needs a function to generate unique IDs for objects.
+ * In order to have no dependencies this needs to be passed in.
+ * For convenience the examples use [nanoid](https://www.npmjs.com/package/nanoid).
+ */
+export class SuperRPC {
+    private channel!: RPCChannel;
+    private connected = false;
+
+    private readonly peers = new Map<string, PeerState>();
+
+    private asyncCallbacks = new Map<number|string, PromiseCallbacks>();
+    private callId = 0;
+
+    private callContext?: CallContext;
+
+    private readonly hostObjectRegistry = new Map<string, HostObjectRegistryEntry>();
+    private readonly hostClassRegistry = new Map<string, ClassRegistryEntry>();
+
+    // calls of revoked host objects fail with an RPCRevokedError
+    private readonly revokedObjectIds = new Set<string>();
+
+    // the host objects/classes registered (or removed) since the last descriptors update, see [[SuperRPCOptions.autoSendDescriptors]]
+    private pendingDescriptors?: { objIds: Set<string>, classIds: Set<string> };
+
+    private readonly errorClassRegistry = new Map<string, AnyConstructor>(builtinErrorClasses.map(errorClass => [errorClass.name, errorClass]));
+    private readonly errorClassNames = new Map<AnyConstructor, string>(builtinErrorClasses.map(errorClass => [errorClass, errorClass.name]));
+
+    // the types registered later are tested first, so they can override the built-in ones
+    private readonly valueTypes = new Map<string, ValueType>(Object.entries(builtinValueTypes).reverse());
+
+    // the sources of the async iterables/streams sent to the other side, so sending one again reuses its source
+    private readonly asyncIteratorSources = new WeakMap<object, AsyncIteratorSource>();
+
+    private readonly eventListeners = new Map<keyof SuperRPCEvents, Set<AnyFunction>>();
+
+    private readonly interceptors: RPCInterceptor[] = [];
+
+    private readonly metrics?: MetricsCollector;
+    private metricsTimer?: ReturnType<typeof setInterval>;
+
+    /**
+     * @param objectIdGenerator A function to generate a unique ID for an object.
+     *
+     * When sending an object to the other side that can not be serialized, we
+     * generate an ID and send that instead. The other side creates a proxy object
+     * that represents the remote object.
+     * @param options See [[SuperRPCOptions]].
+     */
+    constructor(private objectIdGenerator: () => string, private readonly options: SuperRPCOptions = {}) {
+        if (options.metrics) {
+            this.metrics = new MetricsCollector(options.metrics === true ? {} : options.metrics);
+        }
+    }
+
+    /**
+     * Connect the service to a channel.
+     */
+    connect(channel: RPCChannel) {
+        this.channel = channel;
+        this.connected = true;
+        const defaultPeer = this.peers.get(defaultPeerId);
+        if (defaultPeer) defaultPeer.channel = channel;
+        channel.receive?.((message, replyChannel, context) => {
+            if (this.isConnectedTo(channel)) this.messageReceived(message, replyChannel, context);
+        });
+        channel.onClose?.((reason) => {
+            if (this.isConnectedTo(channel)) this.disconnect(reason);
+        });
+
+        const interval = typeof this.options.metrics === 'object' ? this.options.metrics.interval : undefined;
+        if (interval && !this.metricsTimer) {
+            this.metricsTimer = setInterval(() => this.emit('metrics', <MetricsSnapshot>this.getMetrics()), interval);
+        }
+        this.emit('connect', channel);
+    }
+
+    /**
+     * Disconnect the service from the channel.
+     *
+     * - Pending async calls are rejected with an [[RPCChannelClosedError]].
+     * - All proxy objects/functions/classes are marked as disposed, calling them throws an error.
+     * - Host objects that were registered implicitly (by sending them to the other side) are released.
+     *
+     * Explicitly registered host objects/functions/classes are kept, so the service can be connected again.
+     * @param reason Passed on to the rejected calls and the "disconnect" event listeners.
+     */
+    disconnect(reason?: any) {
+        if (!this.connected) return;
+
+        for (const peerId of [...this.peers.keys()]) {
+            this.disconnectPeer(peerId, reason);
+        }
+        this.connected = false;
+
+        if (this.metricsTimer) {
+            clearInterval(this.metricsTimer);
+            this.metricsTimer = undefined;
+        }
+        this.emit('disconnect', reason);
+    }
+
+    /**
+     * Disconnect a single peer (see [[RPCChannel.peerId]]), e.g. when an Electron renderer is reloaded or destroyed.
+     * The same cleanup happens as in [[disconnect]], but only for the given peer, the channel stays connected.
+     *
+     * @param peerId The ID of the peer. Omit it to disconnect the peer at the other end of the connected channel.
+     * @param reason Passed on to the rejected calls and the "peerDisconnect" event listeners.
+     */
+    disconnectPeer(peerId = defaultPeerId, reason?: any) {
+        const peer = this.peers.get(peerId);
+        if (!peer) return;
+        this.peers.delete(peerId);
+
+        for (const [callId, callbacks] of this.asyncCallbacks) {
+            if ((callbacks.peerId ?? defaultPeerId) !== peerId) continue;
+            this.asyncCallbacks.delete(callId);
+            callbacks.cleanup?.();
+            callbacks.reject(new RPCChannelClosedError(reason));
+        }
+
+        for (const controller of peer.hostCallControllers.values()) {
+            controller.abort();
+        }
+        peer.remoteDescriptorsCallbacks?.reject(new RPCChannelClosedError(reason));
+
+        for (const objId of [...peer.eventListeners.keys()]) {
+            this.removeProxyEventListeners(peer, objId);
+        }
+        for (const objId of [...peer.eventSubscriptions.keys()]) {
+            this.unsubscribeHostEvents(peer, objId);
+        }
+
+        peer.proxyObjectRegistry.disposeAll();
+        for (const clazz of peer.proxyClassRegistry.values()) {
+            (clazz as any)[rpc_disposed] = true;
+        }
+
+        for (const [objId, entry] of this.hostObjectRegistry) {
+            this.releaseHostObject(objId, entry, peerId);
+        }
+
+        this.emit('peerDisconnect', peerId, reason);
+    }
+
+    /**
+     * Returns `true` if a message has arrived from the given peer (see [[RPCChannel.peerId]]) and it has not been disconnected since.
+     */
+    hasPeer(peerId: string) {
+        return this.peers.has(peerId);
+    }
+
+    /**
+     * Returns what a peer told about itself in the handshake (see [[handshake]]), or `undefined` if there was no handshake with it.
+     * @param peerId The ID of the peer. Omit it for the other end of the connected channel.
+     */
+    getPeerInfo(peerId = defaultPeerId): HandshakeInfo | undefined {
+        return this.peers.get(peerId)?.remoteInfo;
+    }
+
+    /**
+     * Subscribe to a lifecycle event, see [[SuperRPCEvents]].
+     */
+    on<E extends keyof SuperRPCEvents>(event: E, listener: SuperRPCEvents[E]) {
+        let listeners = this.eventListeners.get(event);
+        if (!listeners) this.eventListeners.set(event, listeners = new Set());
+        listeners.add(listener);
+        return this;
+    }
+
+    /**
+     * Unsubscribe from a lifecycle event.
      */
-    sendSync?: (message: RPC_Message) => any;
+    off<E extends keyof SuperRPCEvents>(event: E, listener: SuperRPCEvents[E]) {
+        this.eventListeners.get(event)?.delete(listener);
+        return this;
+    }
 
     /**
-     * Sends a message asnychronously. The response will come via the `receive` callback function.
+     * Returns a snapshot of the metrics, or `undefined` if metrics are not collected (see [[SuperRPCOptions.metrics]]).
      */
-    sendAsync?: (message: RPC_Message) => void;
+    getMetrics(): MetricsSnapshot | undefined {
+        return this.metrics?.snapshot({
+            pendingAsyncCalls: this.asyncCallbacks.size,
+            hostObjects: this.hostObjectRegistry.size,
+            proxyObjects: [...this.peers.values()].reduce((sum, peer) => sum + peer.proxyObjectRegistry.size, 0)
+        });
+    }
 
     /**
-     * Register a callback for when an async message arrives.
+     * Returns the internal state of the service, e.g. for an inspector: the remote descriptors and the live proxies
+     * of each peer, and the host objects. See also the `message` event ([[SuperRPCEvents]]).
      */
-    receive?: (callback: (message: RPC_Message, replyChannel?: RPCChannel, context?: any) => void) => void;
-}
+    getDebugInfo(): RPCDebugInfo {
+        const peers: { [peerId: string]: PeerDebugInfo } = {};
+        for (const [peerId, peer] of this.peers) {
+            peers[peerId] = {
+                handshake: peer.remoteInfo,
+                remoteObjectDescriptors: peer.remoteObjectDescriptors,
+                remoteClassDescriptors: peer.remoteClassDescriptors,
+                proxyObjectIds: peer.proxyObjectRegistry.keys(),
+                proxyClassIds: [...peer.proxyClassRegistry.keys()]
+            };
+        }
+        return {
+            peers,
+            hostObjectIds: [...this.hostObjectRegistry.keys()],
+            hostClassIds: [...this.hostClassRegistry.keys()],
+            pendingAsyncCalls: this.asyncCallbacks.size
+        };
+    }
 
-/**
- * The SuperRPC is the central piece. An instance must be created on both sides.
- *
- * Objects, functions or classes can be registered on the "host" side
- * (see [[registerHostObject]], [[registerHostClass]]) and then functions/properties can be
- * called from the "client" side (see [[getProxyObject]], [[getProxyClass]]).
- *
- * The RPC service is symmetric, so depending on the use-case (and the channel),
- * both side can be "host" and "client" at the same time.
- *
- * The constructor needs a function to generate unique IDs for objects.
- * In order to have no dependencies this needs to be passed in.
- * For convenience the examples use [nanoid](https://www.npmjs.com/package/nanoid).
- */
-export class SuperRPC {
-    private channel!: RPCChannel;
+    /**
+     * Add an interceptor that can inspect, change, delay or reject the messages.
+     * Outbound messages go through the interceptors in the order they were added, inbound messages too.
+     *
+     * ```ts
+     * rpc.addInterceptor({
+     *     outbound: (message, ctx, next) => next({ ...message, token }),
+     *     inbound: (message, ctx, next) => isValid(message) ? next(message) : undefined
+     * });
+     * ```
+     */
+    addInterceptor(interceptor: RPCInterceptor) {
+        this.interceptors.push(interceptor);
+        return this;
+    }
 
-    private remoteObjectDescriptors?: ObjectDescriptors;
-    private remoteClassDescriptors?: ClassDescriptors;
-    private remoteDescriptorsCallbacks?: PromiseCallbacks;
+    /**
+     * Remove an interceptor added by [[addInterceptor]].
+     */
+    removeInterceptor(interceptor: RPCInterceptor) {
+        const idx = this.interceptors.indexOf(interceptor);
+        if (idx >= 0) this.interceptors.splice(idx, 1);
+        return this;
+    }
 
-    private asyncCallbacks = new Map<number|string, PromiseCallbacks>();
-    private callId = 0;
+    private intercept(message: RPC_Message, ctx: InterceptorContext, final: (message: RPC_Message) => any) {
+        const chain = this.interceptors.map(interceptor => interceptor[ctx.direction]).filter((fn): fn is InterceptorFn => !!fn);
+        const next = (idx: number) => (msg: RPC_Message): any => idx < chain.length ? chain[idx](msg, ctx, next(idx + 1)) : final(msg);
+        return next(0)(message);
+    }
 
-    private readonly proxyObjectRegistry = new ProxyObjectRegistry();
-    private readonly proxyClassRegistry = new Map<string, AnyConstructor>();
-    private readonly hostObjectRegistry = new Map<string, HostObjectRegistryEntry>();
-    private readonly hostClassRegistry = new Map<string, ClassRegistryEntry>();
+    private emit<E extends keyof SuperRPCEvents>(event: E, ...args: Parameters<SuperRPCEvents[E]>) {
+        for (const listener of this.eventListeners.get(event) ?? []) {
+            listener(...args);
+        }
+    }
 
     /**
-     * @param objectIdGenerator A function to generate a unique ID for an object.
+     * The context of the call currently being served by a host function/object.
      *
-     * When sending an object to the other side that can not be serialized, we
-     * generate an ID and send that instead. The other side creates a proxy object
-     * that represents the remote object.
+     * It is only available *synchronously* while the host function runs, so an async function
+     * has to grab it before its first `await`:
+     * ```ts
+     * async function longRunning() {
+     *     const { signal } = rpc.currentCallContext ?? {};
+     *     // ...
+     * }
+     * ```
      */
-    constructor(private objectIdGenerator: () => string) {
+    get currentCallContext() {
+        return this.callContext;
+    }
+
+    private isConnectedTo(channel: RPCChannel) {
+        return this.connected && this.channel === channel;
     }
 
     /**
-     * Connect the service to a channel.
+     * Gets the state of a peer by its ID, or by the reply channel that a message arrived on.
      */
-    connect(channel: RPCChannel) {
-        this.channel = channel;
-        channel.receive?.(this.messageReceived.bind(this));
+    private getPeer(peer: string | RPCChannel | undefined = defaultPeerId) {
+        const peerId = (typeof peer === 'string' ? peer : peer.peerId) ?? defaultPeerId;
+        let state = this.peers.get(peerId);
+        if (!state) {
+            if (typeof peer === 'string' && peerId !== defaultPeerId) {
+                throw new Error(`Unknown peer '${peerId}'`);
+            }
+            this.peers.set(peerId, state = {
+                peerId,
+                channel: peerId === defaultPeerId ? this.channel : <RPCChannel>peer,
+                proxyObjectRegistry: new ProxyObjectRegistry(),
+                proxyClassRegistry: new Map(),
+                hostCallControllers: new Map(),
+                eventListeners: new Map(),
+                eventSubscriptions: new Map()
+            });
+            if (peerId !== defaultPeerId) {
+                const newState = state;
+                (<RPCChannel>peer).onClose?.(reason => {
+                    if (this.peers.get(peerId) === newState) this.disconnectPeer(peerId, reason);
+                });
+                this.emit('peerConnect', peerId);
+            }
+        }
+        return state;
+    }
+
+    private releaseHostObject(objId: string, entry: HostObjectRegistryEntry, peerId: string) {
+        if (entry.peers?.delete(peerId) && entry.peers.size === 0) {
+            this.hostObjectRegistry.delete(objId);
+            // an iteration abandoned by the other side is ended, so e.g. the \`finally\` blocks of a generator run
+            if (entry.descriptor === asyncIteratorSourceDescriptor) {
+                (entry.target as AsyncIteratorSource).return().catch(() => undefined);
+            }
+        }
     }
 
     /**
@@ -110,11 +837,15 @@ export class SuperRPC {
      * @param objId An ID that the "client" side uses to identify this object.
      * @param target The target object
      * @param descriptor Describes which functions/properties to expose
+     * @param options See [[HostObjectOptions]].
      */
-    registerHostObject(objId: string, target: object, descriptor: ObjectDescriptor) {
+    registerHostObject(objId: string, target: object, descriptor: ObjectDescriptor, options?: HostObjectOptions) {
         descriptor.type = 'object';
+        this.revokedObjectIds.delete(objId);
         (target as any)[hostObjectId] = objId;
-        this.hostObjectRegistry.set(objId, { target, descriptor });
+        this.hostObjectRegistry.set(objId, { target, descriptor, options });
+        this.interceptLiveProperties(target, descriptor);
+        this.hostDescriptorsChanged([objId]);
     }
 
     /**
@@ -122,11 +853,14 @@ export class SuperRPC {
      * @param objId An ID that the "client" side uses to identify this function.
      * @param target The target function
      * @param descriptor Describes arguments and return behavior ([[FunctionReturnBehavior]])
+     * @param options See [[HostObjectOptions]].
      */
-    registerHostFunction(objId: string, target: AnyFunction, descriptor: FunctionDescriptor) {
+    registerHostFunction(objId: string, target: AnyFunction, descriptor: FunctionDescriptor, options?: HostObjectOptions) {
         descriptor.type = 'function';
+        this.revokedObjectIds.delete(objId);
         (target as any)[hostObjectId] = objId;
-        this.hostObjectRegistry.set(objId, { target, descriptor });
+        this.hostObjectRegistry.set(objId, { target, descriptor, options });
+        this.hostDescriptorsChanged([objId]);
     }
 
     /**
@@ -142,49 +876,434 @@ export class SuperRPC {
      * @param classId An ID to identify the class on the client side.
      * @param classCtor The class itself (its constructor function)
      * @param descriptor What properties/functions to expose
+     * @param options See [[HostObjectOptions]].
      */
-    registerHostClass(classId: string, classCtor: AnyConstructor, descriptor: ClassDescriptor) {
+    registerHostClass(classId: string, classCtor: AnyConstructor, descriptor: ClassDescriptor, options?: HostObjectOptions) {
         descriptor.type = 'class';
         descriptor.classId = classId;
 
         if (descriptor.static) {
-            this.registerHostObject(classId, classCtor, descriptor.static);
+            this.registerHostObject(classId, classCtor, descriptor.static, options);
         }
 
         if (descriptor.ctor) {
-            this.registerHostFunction(classId + '.ctor', <any>classCtor, descriptor.ctor);
+            this.registerHostFunction(classId + '.ctor', <any>classCtor, descriptor.ctor, options);
         }
 
         (classCtor as any)[classIdSym] = classId;
-        this.hostClassRegistry.set(classId, { classCtor, descriptor });
+        this.hostClassRegistry.set(classId, { classCtor, descriptor, options });
+        this.hostDescriptorsChanged([], [classId]);
+    }
+
+    /**
+     * Unregister a host object/function: the calls from the other side fail and its event subscriptions are removed.
+     *
+     * The other side is not notified (unless [[SuperRPCOptions.autoSendDescriptors]] is on), see [[revokeHostObject]].
+     * @returns `false` if there is no object registered with the ID.
+     */
+    unregisterHostObject(objId: string) {
+        const entry = this.hostObjectRegistry.get(objId);
+        if (!entry) return false;
+
+        this.hostObjectRegistry.delete(objId);
+        if ((entry.target as any)[hostObjectId] === objId) delete (entry.target as any)[hostObjectId];
+        for (const peer of this.peers.values()) {
+            this.unsubscribeHostEvents(peer, objId);
+        }
+        // objects sent implicitly (e.g. instances of classes) have no descriptors on the other side
+        if (!entry.peers) this.hostDescriptorsChanged([objId]);
+        return true;
+    }
+
+    /**
+     * Unregister a host class, along with its static object and constructor function.
+     * Instances already sent to the other side keep working until they are released, see [[revokeHostClass]].
+     *
+     * The other side is not notified (unless [[SuperRPCOptions.autoSendDescriptors]] is on).
+     * @returns `false` if there is no class registered with the ID.
+     */
+    unregisterHostClass(classId: string) {
+        const entry = this.hostClassRegistry.get(classId);
+        if (!entry) return false;
+
+        this.hostClassRegistry.delete(classId);
+        if ((entry.classCtor as any)[classIdSym] === classId) delete (entry.classCtor as any)[classIdSym];
+        if (entry.descriptor.static) this.unregisterHostObject(classId);
+        if (entry.descriptor.ctor) this.unregisterHostObject(classId + '.ctor');
+        this.hostDescriptorsChanged([], [classId]);
+        return true;
+    }
+
+    /**
+     * Unregister a host object/function (see [[unregisterHostObject]]) and tell the other side(s) about it:
+     * the proxies there are disposed and using them throws (rejects) an [[RPCRevokedError]].
+     * The calls that arrive later fail with an [[RPCRevokedError]] too.
+     *
+     * It works for objects sent implicitly (e.g. an instance of a registered class) as well.
+     * @returns `false` if there is no object registered with the ID.
+     */
+    revokeHostObject(objId: string) {
+        if (!this.hostObjectRegistry.has(objId)) return false;
+        this.revoke([objId], []);
+        return true;
+    }
+
+    /**
+     * Unregister a host class (see [[unregisterHostClass]]) and revoke it on the other side(s), along with its
+     * static object, constructor function and the instances that have been sent. See [[revokeHostObject]].
+     * @returns `false` if there is no class registered with the ID.
+     */
+    revokeHostClass(classId: string) {
+        if (!this.hostClassRegistry.has(classId)) return false;
+        const instanceIds = [...this.hostObjectRegistry]
+            .filter(([, entry]) => entry.peers && (entry.target as any).constructor?.[classIdSym] === classId)
+            .map(([objId]) => objId);
+        this.revoke([classId, classId + '.ctor', ...instanceIds], [classId]);
+        return true;
+    }
+
+    private revoke(objIds: string[], classIds: string[]) {
+        // each peer is told about the objects it has access to
+        const messages = new Map<RPCChannel, RPC_ObjectRevokedMessage>();
+        const getMessage = (channel: RPCChannel) => {
+            let message = messages.get(channel);
+            if (!message) messages.set(channel, message = { action: 'obj_revoked', objIds: [], classIds: [] });
+            return message;
+        };
+
+        for (const objId of objIds) {
+            const entry = this.hostObjectRegistry.get(objId);
+            if (!entry) continue;
+            this.getRevokeChannels(entry.peers).forEach(channel => getMessage(channel).objIds.push(objId));
+            this.revokedObjectIds.add(objId);
+            this.unregisterHostObject(objId);
+        }
+        for (const classId of classIds) {
+            this.getRevokeChannels().forEach(channel => getMessage(channel).classIds.push(classId));
+            this.unregisterHostClass(classId);
+        }
+
+        for (const [channel, message] of messages) {
+            this.sendAsyncIfPossible(message, channel);
+        }
+    }
+
+    /**
+     * The channels of the peers that can be told about revoking (the others find out when they call the revoked objects).
+     */
+    private getRevokeChannels(peerIds?: Iterable<string>) {
+        return this.getPeerChannels(peerIds).filter(channel => this.supportsExtension(this.peers.get(channel.peerId ?? defaultPeerId), 'revoke'));
+    }
+
+    /**
+     * Register a custom error class, so errors of this class are reconstructed as instances of it on this side
+     * (`instanceof` works). Both sides need to register the class with the same name.
+     *
+     * Errors are sent with their `name`, `message`, `cause`, custom enumerable fields (e.g. `code`) and,
+     * if enabled, `stack` (see [[SuperRPCOptions.sendErrorStack]]).
+     * The built-in error classes (`TypeError`, `RangeError`, etc.) and the library's own errors are registered by default.
+     *
+     * @param errorClass The error class (its constructor function)
+     * @param errorName An ID to identify the error class on both sides. Defaults to the name of the class.
+     */
+    registerErrorClass(errorClass: AnyConstructor, errorName = errorClass.name) {
+        this.errorClassRegistry.set(errorName, errorClass);
+        this.errorClassNames.set(errorClass, errorName);
+    }
+
+    /**
+     * Register a value type, so its values are sent by value (serialized/deserialized with the [[ValueType]])
+     * instead of as plain objects or proxies. Both sides need to register the type with the same name.
+     *
+     * `Date`, `RegExp`, `BigInt`, `Map`, `Set`, `ArrayBuffer` and typed arrays are registered by default.
+     * Registering a type with one of these names replaces the built-in one.
+     *
+     * @param name An ID to identify the type on both sides.
+     * @param valueType The serializer/deserializer of the type.
+     */
+    registerValueType<T, TData>(name: string, valueType: ValueType<T, TData>) {
+        // keep the latest registered type first
+        const valueTypes = [...this.valueTypes].filter(([typeName]) => typeName !== name);
+        this.valueTypes.clear();
+        for (const [typeName, type] of [[name, valueType], ...valueTypes] as const) {
+            this.valueTypes.set(typeName, type);
+        }
+    }
+
+    /**
+     * Exchanges the protocol version, the library version and the supported features (see [[HandshakeInfo]]) with a peer.
+     * It should be done before anything else: the proxies created afterwards only use the call types that the other side
+     * can answer, and the optional features it does not support fall back or throw (see [[HandshakeFeatures.extensions]]).
+     *
+     * Resolves with the info of the other side, also available through [[getPeerInfo]].
+     * Rejects with an [[RPCProtocolError]] if the protocol versions differ, or the other side does not answer
+     * (synchronously, or within [[SuperRPCOptions.callTimeout]], 10 seconds if not set).
+     *
+     * @param peerId The peer to shake hands with (see [[RPCChannel.peerId]]). Omit it for the other end of the connected channel.
+     */
+    async handshake(peerId?: string): Promise<HandshakeInfo> {
+        const peer = this.getPeer(peerId);
+        const info = this.getHandshakeInfo(peer.channel);
+        let response: RPC_HandshakeResultMessage | undefined;
+
+        if (peer.channel.sendAsync) {
+            const callId = ++this.callId;
+            // an older version on the other side does not answer at all
+            const timeout = this.options.callTimeout || defaultRequestTimeout;
+            response = await new Promise((resolve, reject) => {
+                const timer = setTimeout(() => {
+                    this.asyncCallbacks.delete(callId);
+                    reject(new RPCProtocolError());
+                }, timeout);
+                this.asyncCallbacks.set(callId, { resolve, reject, peerId: peer.channel.peerId, cleanup: () => clearTimeout(timer) });
+                this.sendAsync({ action: 'handshake', callType: 'async', callId, info }, peer.channel);
+            });
+        } else {
+            response = this.sendSync({ action: 'handshake', callType: 'sync', info }, peer.channel);
+        }
+
+        if (response?.action !== 'handshake_reply') throw new RPCProtocolError();
+        const error = this.handshakeReceived(peer, response.info);
+        if (error) throw error;
+        return response.info;
+    }
+
+    /**
+     * What this side tells about itself in the handshake. The call types are those of the channel the replies are sent on.
+     */
+    private getHandshakeInfo(channel: RPCChannel): HandshakeInfo {
+        return {
+            protocolVersion,
+            libraryVersion,
+            features: {
+                sync: !!channel.sendSync,
+                async: !!channel.sendAsync,
+                valueTypes: [...this.valueTypes.keys()],
+                extensions: [...protocolExtensions]
+            }
+        };
+    }
+
+    /**
+     * Stores what a peer told about itself in the handshake. Returns an [[RPCProtocolError]] if the protocol versions differ.
+     */
+    private handshakeReceived(peer: PeerState, info: HandshakeInfo) {
+        peer.remoteInfo = info;
+        const error = info.protocolVersion === protocolVersion ? undefined : new RPCProtocolError(info.protocolVersion, info.libraryVersion);
+        this.emit('handshake', peer.peerId, info, error);
+        return error;
+    }
+
+    /**
+     * Whether calls of the given type can be made through the channel: the channel can send them,
+     * and the other side can answer them (if it told in the handshake).
+     */
+    private supportsCallType(channel: RPCChannel, callType: 'sync' | 'async') {
+        const features = this.peers.get(channel.peerId ?? defaultPeerId)?.remoteInfo?.features;
+        return (callType === 'sync' ? this.canRequestSync(channel) : !!channel.sendAsync) && features?.[callType] !== false;
+    }
+
+    /**
+     * Whether a message that expects a response can be sent synchronously through the channel.
+     * The reply channel of a peer (see [[RPCChannel.peerId]]) can only answer synchronously (e.g. `event.returnValue` in Electron).
+     */
+    private canRequestSync(channel: RPCChannel) {
+        return !!channel.sendSync && (channel === this.channel || !channel.peerId);
+    }
+
+    /**
+     * Whether a peer supports an optional feature of the protocol. A peer without a handshake is assumed to support all of them.
+     */
+    private supportsExtension(peer: PeerState | undefined, extension: ProtocolExtension) {
+        return !peer?.remoteInfo || !!peer.remoteInfo.features?.extensions?.includes(extension);
+    }
+
+    /**
+     * Throws if the peer at the other end of the channel does not support an optional feature that is needed.
+     */
+    private checkRemoteFeature(channel: RPCChannel, extension: ProtocolExtension, feature: string) {
+        const peer = this.peers.get(channel.peerId ?? defaultPeerId);
+        if (!this.supportsExtension(peer, extension)) {
+            throw new Error(`The other side (library ${peer?.remoteInfo?.libraryVersion}) does not support ${feature}`);
+        }
     }
 
     /**
      * Send a request to get the descriptors for the registered host objects from the other side.
-     * Uses synchronous communication if possible and returns `true`/`false` based on if the descriptors were received.
+     * Uses synchronous communication if possible (not through the reply channel of a peer)
+     * and returns `true`/`false` based on if the descriptors were received.
      * If sync is not available, it uses async messaging and returns a Promise.
+     *
+     * @param peerId The peer to request the descriptors from (see [[RPCChannel.peerId]]).
+     * Omit it for the other end of the connected channel.
      */
-    requestRemoteDescriptors() {
-        if (this.channel?.sendSync) {
-            const response = this.sendSync({ action: 'get_descriptors' }) as RPC_DescriptorsResultMessage;
-            return this.setRemoteDescriptors(response);
+    requestRemoteDescriptors(peerId?: string) {
+        const peer = this.getPeer(peerId);
+        if (this.canRequestSync(peer.channel)) {
+            const response = this.sendSync({ action: 'get_descriptors' }, peer.channel) as RPC_DescriptorsResultMessage;
+            return this.setRemoteDescriptors(response, peer);
         }
 
         return new Promise<void>((resolve, reject) => {
-            this.sendAsync({ action: 'get_descriptors' });
-            this.remoteDescriptorsCallbacks = { resolve, reject };
+            // before sending, the reply may arrive synchronously (e.g. through an in-process stream)
+            peer.remoteDescriptorsCallbacks = { resolve, reject };
+            this.sendAsync({ action: 'get_descriptors' }, peer.channel);
         });
     }
 
-    private setRemoteDescriptors(response: RPC_DescriptorsResultMessage) {
+    private setRemoteDescriptors(response: RPC_DescriptorsResultMessage, peer: PeerState) {
         if (typeof response === 'object' && response.objects && response.classes) {
-            this.remoteObjectDescriptors = response.objects;
-            this.remoteClassDescriptors = response.classes;
+            this.updateRemoteDescriptors(peer, {
+                objects: response.objects,
+                classes: response.classes,
+                removedObjects: Object.keys(peer.remoteObjectDescriptors ?? {}).filter(objId => !(objId in response.objects)),
+                removedClasses: Object.keys(peer.remoteClassDescriptors ?? {}).filter(classId => !(classId in response.classes))
+            });
             return true;
         }
         return false;
     }
 
+    /**
+     * Applies the added/changed/removed descriptors of a peer: the proxies of the changed and removed objects/classes are disposed.
+     */
+    private updateRemoteDescriptors(peer: PeerState, update: Omit<RPC_DescriptorsUpdateMessage, 'action'>) {
+        const objects = peer.remoteObjectDescriptors = { ...peer.remoteObjectDescriptors };
+        const classes = peer.remoteClassDescriptors = { ...peer.remoteClassDescriptors };
+        const change: RemoteDescriptorsChange = {
+            addedObjects: [], changedObjects: [], removedObjects: [], addedClasses: [], changedClasses: [], removedClasses: []
+        };
+
+        for (const [objId, descriptor] of Object.entries(update.objects)) {
+            if (!(objId in objects)) {
+                change.addedObjects.push(objId);
+            } else if (!isSameDescriptor(objects[objId], descriptor)) {
+                change.changedObjects.push(objId);
+                peer.proxyObjectRegistry.get(objId)?.[rpc_disposeFunc]();
+            }
+            objects[objId] = descriptor;
+        }
+        for (const objId of update.removedObjects) {
+            if (!(objId in objects)) continue;
+            delete objects[objId];
+            change.removedObjects.push(objId);
+            peer.proxyObjectRegistry.get(objId)?.[rpc_disposeFunc]();
+            this.removeProxyEventListeners(peer, objId);
+        }
+
+        for (const [classId, descriptor] of Object.entries(update.classes)) {
+            if (!(classId in classes)) {
+                change.addedClasses.push(classId);
+            } else if (!isSameDescriptor(classes[classId], descriptor)) {
+                change.changedClasses.push(classId);
+                this.disposeProxyClass(peer, classId);
+            }
+            classes[classId] = descriptor;
+        }
+        for (const classId of update.removedClasses) {
+            if (!(classId in classes)) continue;
+            delete classes[classId];
+            change.removedClasses.push(classId);
+            this.disposeProxyClass(peer, classId);
+        }
+
+        if (Object.values(change).some(ids => ids.length)) this.emit('remoteDescriptorsChange', peer.peerId, change);
+    }
+
+    /**
+     * Disposes the proxies of the revoked host objects/classes, using them throws an [[RPCRevokedError]].
+     */
+    private remoteObjectsRevoked(peer: PeerState, objIds: string[], classIds: string[]) {
+        for (const objId of objIds) {
+            const obj = peer.proxyObjectRegistry.get(objId);
+            if (obj) obj[revokedSym] = true;
+            // the host object is gone already, no need to send "obj_died"
+            peer.proxyObjectRegistry.dispose(objId);
+            this.removeProxyEventListeners(peer, objId);
+        }
+        for (const classId of classIds) {
+            const clazz: any = peer.proxyClassRegistry.get(classId);
+            if (clazz) clazz[revokedSym] = true;
+        }
+        this.updateRemoteDescriptors(peer, { objects: {}, classes: {}, removedObjects: objIds, removedClasses: classIds });
+    }
+
+    /**
+     * Requests the descriptors of specific objects/classes from a peer, see [[getProxyObjectAsync]].
+     * The request is synchronous if `sync` is set (or the channel has no `sendAsync`), otherwise it returns a Promise
+     * that is rejected with an [[RPCTimeoutError]] if there is no answer within `timeout` (if given).
+     */
+    private requestObjectDescriptors(peer: PeerState, objIds: string[], classIds: string[], sync = false, timeout?: number): Promise<void> | undefined {
+        if (sync || !peer.channel.sendAsync) {
+            const response = this.sendSync({ action: 'get_object_descriptors', callType: 'sync', objIds, classIds }, peer.channel);
+            if (response?.action === 'object_descriptors') this.addObjectDescriptors(response, peer);
+            return;
+        }
+
+        const callId = ++this.callId;
+        return new Promise((resolve, reject) => {
+            const timer = timeout ? setTimeout(() => {
+                this.asyncCallbacks.delete(callId);
+                reject(new RPCTimeoutError(timeout, [...objIds, ...classIds].join(', ')));
+            }, timeout) : undefined;
+            this.asyncCallbacks.set(callId, { resolve, reject, peerId: peer.channel.peerId, cleanup: () => timer && clearTimeout(timer) });
+            this.sendAsync({ action: 'get_object_descriptors', callType: 'async', callId, objIds, classIds }, peer.channel);
+        });
+    }
+
+    private sendObjectDescriptors(request: RPC_GetObjectDescriptorsMessage, replyChannel: RPCChannel) {
+        const objects: ObjectDescriptors = {};
+        const classes: ClassDescriptors = {};
+        const addObject = (objId: string) => {
+            const entry = this.hostObjectRegistry.get(objId);
+            if (entry) objects[objId] = this.getLocalDescriptor(entry, replyChannel) as ObjectDescriptorWithProps;
+        };
+
+        request.objIds.forEach(addObject);
+        for (const classId of request.classIds) {
+            const entry = this.hostClassRegistry.get(classId);
+            if (!entry) continue;
+            classes[classId] = this.getLocalDescriptor(entry, replyChannel) as ClassDescriptor;
+            // the static object, for the values of its properties
+            addObject(classId);
+        }
+
+        if (request.callType === 'async') {
+            this.sendAsync({ action: 'object_descriptors', callType: 'async', callId: request.callId, objects, classes }, replyChannel);
+        } else {
+            this.sendSync({ action: 'object_descriptors', callType: 'sync', objects, classes }, replyChannel);
+        }
+    }
+
+    private addObjectDescriptors(response: RPC_ObjectDescriptorsResultMessage, peer: PeerState) {
+        this.updateRemoteDescriptors(peer, { objects: response.objects, classes: response.classes, removedObjects: [], removedClasses: [] });
+    }
+
+    /**
+     * Finds the classes of the instances in a received message (in its arguments, result or value) that have no descriptor yet.
+     */
+    private findUnknownClassIds(message: RPC_Message, peer: PeerState) {
+        const classIds = new Set<string>();
+        const visit = (value: any) => {
+            if (typeof value !== 'object' || !value) return;
+            if (value._rpc_type === 'object' && value.classId !== 'Promise' && !peer.remoteClassDescriptors?.[value.classId]) {
+                classIds.add(value.classId);
+            }
+            Object.values(value).forEach(visit);
+        };
+        const { args, result, value } = message as any;
+        [args, result, value].forEach(visit);
+        return [...classIds];
+    }
+
+    private disposeProxyClass(peer: PeerState, classId: string) {
+        const clazz = peer.proxyClassRegistry.get(classId);
+        if (!clazz) return;
+        (clazz as any)[rpc_disposed] = true;
+        peer.proxyClassRegistry.delete(classId);
+        this.removeProxyEventListeners(peer, classId);
+    }
+
     /**
      * Send the descriptors for the registered host objects to the other side.
      * If possible, the message is sent synchronously.
@@ -193,12 +1312,12 @@ export class SuperRPC {
     sendRemoteDescriptors(replyChannel = this.channel) {
         this.sendSyncIfPossible({
             action: 'descriptors',
-            objects: this.getLocalDescriptors(this.hostObjectRegistry),
-            classes: this.getLocalDescriptors(this.hostClassRegistry),
+            objects: this.getLocalDescriptors(this.hostObjectRegistry, replyChannel),
+            classes: this.getLocalDescriptors(this.hostClassRegistry, replyChannel),
         }, replyChannel);
     }
 
-    private getLocalDescriptors<T extends HostObjectRegistryEntry|ClassRegistryEntry>(registry: Map<string, T>):
+    private getLocalDescriptors<T extends HostObjectRegistryEntry|ClassRegistryEntry>(registry: Map<string, T>, replyChannel: RPCChannel):
         T extends HostObjectRegistryEntry ? ObjectDescriptors : ClassDescriptors
     {
         const descriptors: any = {};
@@ -209,27 +1328,100 @@ export class SuperRPC {
 
             if (!entry.descriptor) continue;
 
-            const descr = descriptors[key] = { ...entry.descriptor };
+            descriptors[key] = this.getLocalDescriptor(entry, replyChannel);
+        }
+        return descriptors;
+    }
+
+    /**
+     * The descriptor of a host object/class to send, with the values of its readonly and live properties.
+     */
+    private getLocalDescriptor(entry: ClassRegistryEntry|HostObjectRegistryEntry, replyChannel: RPCChannel) {
+        const descr = { ...entry.descriptor };
 
-            if (entry.descriptor.type === 'object' && entry.descriptor.readonlyProperties) {
-                const props: any = {};
-                for (const prop of entry.descriptor.readonlyProperties) {
-                    props[prop] = (entry as HostObjectRegistryEntry).target[prop];
-                }
-                (descr as ObjectDescriptorWithProps).props = props;
+        if (entry.descriptor.type === 'object' && entry.descriptor.readonlyProperties) {
+            const props: any = {};
+            for (const prop of entry.descriptor.readonlyProperties) {
+                props[prop] = (entry as HostObjectRegistryEntry).target[prop];
             }
+            (descr as ObjectDescriptorWithProps).props = props;
+        }
+
+        const liveProps = getLivePropertyNames(entry.descriptor as ObjectDescriptor);
+        if (entry.descriptor.type === 'object' && liveProps.length) {
+            // each value is serialized on its own, since the changes are sent that way too
+            const values: any = {};
+            for (const prop of liveProps) {
+                values[prop] = this.processBeforeSerialization((entry as HostObjectRegistryEntry).target[prop], replyChannel);
+            }
+            (descr as ObjectDescriptorWithProps).liveProps = values;
+        }
+        return descr;
+    }
+
+    /**
+     * Schedules sending the descriptors of the registered (or removed) host objects/classes to the other side(s),
+     * see [[SuperRPCOptions.autoSendDescriptors]].
+     */
+    private hostDescriptorsChanged(objIds: string[], classIds: string[] = []) {
+        if (!this.options.autoSendDescriptors) return;
+        if (!this.pendingDescriptors) {
+            this.pendingDescriptors = { objIds: new Set(), classIds: new Set() };
+            Promise.resolve().then(() => this.sendDescriptorsUpdate());
+        }
+        objIds.forEach(objId => this.pendingDescriptors?.objIds.add(objId));
+        classIds.forEach(classId => this.pendingDescriptors?.classIds.add(classId));
+    }
+
+    private sendDescriptorsUpdate() {
+        const pending = this.pendingDescriptors;
+        this.pendingDescriptors = undefined;
+        if (!pending) return;
+
+        for (const channel of this.getPeerChannels()) {
+            // a peer that does not support updates requests the descriptors itself
+            if (!this.supportsExtension(this.peers.get(channel.peerId ?? defaultPeerId), 'descriptorUpdates')) continue;
+            const message: RPC_DescriptorsUpdateMessage = { action: 'descriptors_update', objects: {}, classes: {}, removedObjects: [], removedClasses: [] };
+            for (const objId of pending.objIds) {
+                const entry = this.hostObjectRegistry.get(objId);
+                if (entry) message.objects[objId] = this.getLocalDescriptor(entry, channel) as ObjectDescriptorWithProps;
+                else message.removedObjects.push(objId);
+            }
+            for (const classId of pending.classIds) {
+                const entry = this.hostClassRegistry.get(classId);
+                if (entry) message.classes[classId] = this.getLocalDescriptor(entry, channel) as ClassDescriptor;
+                else message.removedClasses.push(classId);
+            }
+            this.sendAsyncIfPossible(message, channel);
         }
-        return descriptors;
     }
 
     private sendSync(message: RPC_Message, channel = this.channel) {
+        if (!this.connected) return;
         this.addMarker(message);
-        return channel?.sendSync?.(message);
+        // replies (and pushed descriptors) do not get a response
+        const expectsResponse = !['fn_reply', 'handshake_reply', 'descriptors', 'descriptors_update', 'object_descriptors'].includes(message.action);
+        return this.intercept(message, { direction: 'outbound', channel }, msg => {
+            this.messageSeen(msg, 'outbound', channel);
+            const response = channel?.sendSync?.(msg);
+            if (!expectsResponse || !response) return response;
+            this.messageSeen(response, 'inbound', channel);
+            return this.intercept(response, { direction: 'inbound', channel }, msg => msg);
+        });
     }
 
     private sendAsync(message: RPC_Message, channel = this.channel) {
+        if (!this.connected) return;
         this.addMarker(message);
-        channel?.sendAsync?.(message);
+        this.intercept(message, { direction: 'outbound', channel }, msg => {
+            this.messageSeen(msg, 'outbound', channel);
+            channel?.sendAsync?.(msg);
+        });
+    }
+
+    private messageSeen(message: RPC_Message, direction: 'inbound' | 'outbound', channel: RPCChannel) {
+        this.metrics?.recordMessage(direction === 'outbound' ? 'sent' : 'received', message);
+        this.emit('message', message, direction, channel);
     }
 
     private sendSyncIfPossible(message: RPC_Message, channel = this.channel) {
@@ -252,22 +1444,48 @@ export class SuperRPC {
         const entry = this.hostObjectRegistry.get(msg.objId);
         let result: any;
         let success = true;
+
+        let controller: AbortController | undefined;
+        if (msg.callType === 'async') {
+            controller = new AbortController();
+            this.getPeer(replyChannel).hostCallControllers.set(msg.callId, controller);
+        }
+
+        const span = this.startSpan({
+            kind: 'server', action: msg.action, callType: msg.callType, objId: msg.objId, prop: (msg as any).prop,
+            classId: entry?.target?.constructor?.[classIdSym], peerId: replyChannel.peerId
+        }, msg.trace);
+        let error: unknown;
+
+        const parentCallContext = this.callContext;
+        this.callContext = {
+            action: msg.action, objId: msg.objId, prop: (msg as any).prop, context, peerId: replyChannel.peerId, signal: controller?.signal,
+            trace: span?.context
+        };
+
         try {
-            if (!entry) throw new Error(`No object found with ID '${msg.objId}'`);
+            if (!entry) throw this.revokedObjectIds.has(msg.objId) ? new RPCRevokedError(msg.objId) : new Error(`No object found with ID '${msg.objId}'`);
+            this.authorize(this.callContext, entry.options?.authorize);
             let scope: unknown = null;
             let { descriptor, target } = entry;
+            let resultSchema: Schema | undefined;
 
             switch (msg.action) {
                 case 'prop_get': {
+                    this.checkAccess(msg, descriptor);
                     result = target[msg.prop];
                     break;
                 }
                 case 'prop_set': {
+                    this.checkAccess(msg, descriptor);
                     const descr = getPropertyDescriptor(descriptor as ObjectDescriptor, msg.prop);
-                    target[msg.prop] = this.processAfterSerialization(msg.args[0], replyChannel, descr?.get?.arguments?.[0]);
+                    const value = this.processAfterSerialization(msg.args[0], replyChannel, descr?.get?.arguments?.[0]);
+                    if (descr?.schema) this.checkValidation(validateValue(value, descr.schema), msg.objId, msg.prop);
+                    target[msg.prop] = value;
                     break;
                 }
                 case 'method_call': {
+                    this.checkAccess(msg, descriptor);
                     scope = target;
                     descriptor = getFunctionDescriptor(entry.descriptor as ObjectDescriptor, msg.prop);
                     target = target[msg.prop];
@@ -276,44 +1494,225 @@ export class SuperRPC {
                 }
                 // eslint-disable-next-line no-fallthrough
                 case 'fn_call': {
-                    result = target.apply(scope, this.deserializeFunctionArgs(descriptor as FunctionDescriptor, msg.args, replyChannel).concat(context));
+                    const args = this.deserializeFunctionArgs(descriptor as FunctionDescriptor, msg.args, replyChannel);
+                    this.checkValidation(validateArguments(descriptor as FunctionDescriptor, args), msg.objId, (msg as any).prop);
+                    resultSchema = (descriptor as FunctionDescriptor)?.resultSchema;
+                    result = target.apply(scope, args.concat(context));
                     break;
                 }
                 case 'ctor_call': {
-                    result = new target(...this.deserializeFunctionArgs(descriptor as FunctionDescriptor, msg.args, replyChannel));
+                    const args = this.deserializeFunctionArgs(descriptor as FunctionDescriptor, msg.args, replyChannel);
+                    this.checkValidation(validateArguments(descriptor as FunctionDescriptor, args), msg.objId);
+                    result = new target(...args);
                     break;
                 }
             }
 
+            const checkResult = (value: unknown) => {
+                if (resultSchema) this.checkValidation(validateValue(value, resultSchema, 'result'), msg.objId, (msg as any).prop);
+                return value;
+            };
+
             if (msg.callType === 'async') {
                 Promise.resolve(result)
-                    .then(value => result = this.processBeforeSerialization(value, replyChannel), err => { result = err?.toString?.(); success = false; })
-                    .then(() => this.sendAsync({ action: 'fn_reply', callType: 'async', success, result, callId: msg.callId }, replyChannel));
+                    .then(checkResult)
+                    // serializing the result can fail too, the caller gets that error
+                    .then(value => this.processBeforeSerialization(value, replyChannel))
+                    .then(value => result = value, err => {
+                        error = err;
+                        result = this.processBeforeSerialization(err, replyChannel);
+                        success = false;
+                    })
+                    .then(() => {
+                        span?.end(success, error);
+                        this.sendAsyncReply(msg, success, result, replyChannel);
+                    });
             } else {
-                result = this.processBeforeSerialization(result, replyChannel);
+                result = this.processBeforeSerialization(checkResult(result), replyChannel);
             }
         } catch (err: any) {
             success = false;
-            result = err?.toString?.();
+            error = err;
+            result = this.processBeforeSerialization(err, replyChannel);
+        } finally {
+            this.callContext = parentCallContext;
+        }
+        if (msg.callType !== 'async' || !success) span?.end(success, error);
+        if (msg.callType === 'sync') {
+            this.sendSync({ action: 'fn_reply', callType: 'sync', success, result }, replyChannel);
+        } else if (msg.callType === 'async' && !success) {
+            this.sendAsyncReply(msg, success, result, replyChannel);
+        }
+    }
+
+    private authorize(call: CallContext, objectPolicy?: AuthorizationPolicy) {
+        for (const policy of [this.options.authorize, objectPolicy]) {
+            const result = policy?.(call) ?? true;
+            if (result === true) continue;
+            const capability = typeof result === 'object' ? result.capability : undefined;
+            if (capability === undefined || !this.options.hasCapability?.(capability, call)) {
+                throw new RPCAuthorizationError(call.objId, call.prop, capability);
+            }
+        }
+    }
+
+    /**
+     * Starts a span if tracing is on, or if there is a parent span to propagate.
+     * If metrics are collected, the span is measured even if it is not traced.
+     */
+    private startSpan(info: SpanInfo, parent?: TraceContext): ActiveSpan | undefined {
+        const span = parent || this.options.traceSink ? startSpan(info, this.objectIdGenerator, parent, this.options.traceSink) : undefined;
+        if (!this.metrics) return span;
+
+        const { metrics } = this;
+        const startTime = Date.now();
+        let ended = false;
+        return {
+            context: span?.context,
+            end(success, error) {
+                if (ended) return;
+                ended = true;
+                span?.end(success, error);
+                metrics.recordCall(info, Date.now() - startTime, success);
+            }
+        };
+    }
+
+    /**
+     * Starts the span of a call made through a proxy function. The parent is the call being served,
+     * or the call that the proxy function was received in.
+     */
+    private startClientSpan(fn: any, scope: any, action: RPC_AnyCallAction, callType: FunctionReturnBehavior, objId: string,
+        prop: string | undefined, replyChannel: RPCChannel) {
+        // proxy instances are created from a proxy class, see getProxyClass
+        const classId = scope?.constructor?.[classIdSym];
+        return this.startSpan({ kind: 'client', action, callType, objId, prop, classId, peerId: replyChannel.peerId },
+            this.callContext?.trace ?? fn[traceParentSym]);
+    }
+
+    private checkAccess(msg: RPC_PropGetMessage | RPC_PropSetMessage | RPC_RpcCallMessage, descriptor: Descriptor) {
+        if (!this.options.strict) return;
+        if (blockedMembers.includes(msg.prop) || !isMemberExposed(descriptor as ObjectDescriptor, msg.action, msg.prop)) {
+            throw new RPCAccessError(msg.objId, msg.prop);
+        }
+    }
+
+    private checkValidation(issues: ValidationIssue[], objId?: string, prop?: string) {
+        if (issues.length) throw new RPCValidationError(issues, objId, prop);
+    }
+
+    private sendAsyncReply(msg: RPC_AsyncFnCallMessage, success: boolean, result: any, replyChannel: RPCChannel) {
+        // the caller is not waiting for the result of a cancelled call
+        if (!this.peers.get(replyChannel.peerId ?? defaultPeerId)?.hostCallControllers.delete(msg.callId)) return;
+        this.sendAsync({ action: 'fn_reply', callType: 'async', success, result, callId: msg.callId }, replyChannel);
+    }
+
+    private messageReceived(message: RPC_Message, replyChannel = this.channel, context?: any) {
+        this.messageSeen(message, 'inbound', replyChannel);
+        let passed = false;
+        const rejected = (err: unknown) => {
+            // the errors of processing the message are not the interceptors' business
+            if (passed) throw err;
+            this.messageRejected(message, err, replyChannel);
+        };
+        try {
+            const result = this.intercept(message, { direction: 'inbound', channel: replyChannel, context }, msg => {
+                passed = true;
+                return this.processMessage(msg, replyChannel, context);
+            });
+            // an async interceptor rejects the message with a rejected promise
+            if (typeof result?.then === 'function') result.then(undefined, rejected);
+        } catch (err) {
+            rejected(err);
         }
+    }
+
+    /**
+     * An inbound interceptor has thrown: the caller of a call message gets the error as the result, other messages are dropped.
+     */
+    private messageRejected(message: RPC_Message, err: unknown, replyChannel: RPCChannel) {
+        if (!this.checkMarker(message) || !['prop_get', 'prop_set', 'ctor_call', 'fn_call', 'method_call'].includes(message.action)) return;
+
+        const msg = message as RPC_AnyCallMessage;
+        const result = this.processBeforeSerialization(err, replyChannel);
         if (msg.callType === 'sync') {
-            this.sendSync({ action: 'fn_reply', callType: 'sync', success, result }, replyChannel);
-        } else if (msg.callType === 'async' && !success) {
-            this.sendAsync({ action: 'fn_reply', callType: 'async', success, result, callId: msg.callId }, replyChannel);
+            this.sendSync({ action: 'fn_reply', callType: 'sync', success: false, result }, replyChannel);
+        } else if (msg.callType === 'async') {
+            this.sendAsync({ action: 'fn_reply', callType: 'async', success: false, result, callId: msg.callId }, replyChannel);
         }
     }
 
-    private messageReceived(message: RPC_Message, replyChannel = this.channel, context?: any) {
+    private processMessage(message: RPC_Message, replyChannel: RPCChannel, context?: any, classesFetched = false) {
         if (this.checkMarker(message)) {
+            const peer = this.getPeer(replyChannel);
+            // a peer that is not at the other end of the connected channel can only be reached through its latest reply channel
+            if (replyChannel.peerId) peer.channel = replyChannel;
+
+            // sync messages can not wait, and the descriptors being fetched must not
+            const canWait = (message as any).callType !== 'sync' && message.action !== 'object_descriptors';
+            if (peer.inboundQueue && canWait && !classesFetched) {
+                peer.inboundQueue.push({ message, replyChannel, context });
+                return;
+            }
+
+            // the descriptors of the classes of the received instances are fetched first, if they are not known yet
+            // (for sync messages see getOrCreateProxyInstance)
+            const unknownClassIds = classesFetched || !canWait ? [] : this.findUnknownClassIds(message, peer);
+            if (unknownClassIds.length && peer.channel.sendAsync && this.supportsExtension(peer, 'objectDescriptors')) {
+                peer.inboundQueue = [{ message, replyChannel, context }];
+                this.requestObjectDescriptors(peer, [], unknownClassIds, false, this.options.callTimeout || defaultRequestTimeout)
+                    // without the descriptors, the instances fail with "No class registered"
+                    ?.catch(() => undefined)
+                    .then(() => this.processInboundQueue(peer));
+                return;
+            }
+
             switch (message.action) {
+                case 'handshake': {
+                    this.handshakeReceived(peer, message.info);
+                    const info = this.getHandshakeInfo(replyChannel);
+                    if (message.callType === 'async') {
+                        this.sendAsync({ action: 'handshake_reply', callType: 'async', callId: message.callId, info }, replyChannel);
+                    } else {
+                        this.sendSync({ action: 'handshake_reply', callType: 'sync', info }, replyChannel);
+                    }
+                    break;
+                }
+                case 'handshake_reply': {
+                    if (message.callType !== 'async') break;
+                    const callbacks = this.asyncCallbacks.get(message.callId);
+                    if (!callbacks) break;
+                    callbacks.cleanup?.();
+                    this.asyncCallbacks.delete(message.callId);
+                    callbacks.resolve(message);
+                    break;
+                }
                 case 'get_descriptors': {
                     this.sendRemoteDescriptors(replyChannel);
                     break;
                 }
+                case 'get_object_descriptors': {
+                    this.sendObjectDescriptors(message, replyChannel);
+                    break;
+                }
+                case 'object_descriptors': {
+                    if (message.callType !== 'async') break;
+                    const callbacks = this.asyncCallbacks.get(message.callId);
+                    if (!callbacks) break;
+                    callbacks.cleanup?.();
+                    this.asyncCallbacks.delete(message.callId);
+                    this.addObjectDescriptors(message, peer);
+                    callbacks.resolve();
+                    break;
+                }
                 case 'descriptors': {
-                    const success = this.setRemoteDescriptors(message);
-                    this.remoteDescriptorsCallbacks?.[success ? 'resolve' : 'reject']();
-                    this.remoteDescriptorsCallbacks = undefined;
+                    const success = this.setRemoteDescriptors(message, peer);
+                    peer.remoteDescriptorsCallbacks?.[success ? 'resolve' : 'reject']();
+                    peer.remoteDescriptorsCallbacks = undefined;
+                    break;
+                }
+                case 'descriptors_update': {
+                    this.updateRemoteDescriptors(peer, message);
                     break;
                 }
                 case 'prop_get':
@@ -325,44 +1724,124 @@ export class SuperRPC {
                     break;
                 }
                 case 'obj_died': {
-                    this.hostObjectRegistry.delete(message.objId);
+                    this.unsubscribeHostEvents(peer, message.objId);
+                    const entry = this.hostObjectRegistry.get(message.objId);
+                    if (entry) this.releaseHostObject(message.objId, entry, replyChannel.peerId ?? defaultPeerId);
+                    break;
+                }
+                case 'obj_revoked': {
+                    this.remoteObjectsRevoked(peer, message.objIds, message.classIds);
+                    break;
+                }
+                case 'event_sub': {
+                    this.subscribeHostEvent(peer, message.objId, message.event, context);
+                    break;
+                }
+                case 'event_unsub': {
+                    this.unsubscribeHostEvents(peer, message.objId, message.event);
+                    break;
+                }
+                case 'event': {
+                    const listeners = peer.eventListeners.get(message.objId)?.get(message.event);
+                    if (!listeners) break;
+                    const args = this.deserializeFunctionArgs({}, message.args, replyChannel);
+                    for (const listener of [...listeners]) {
+                        try {
+                            listener(...args);
+                        } catch (err) {
+                            // a failing listener must not stop the others, its error is reported like an uncaught one
+                            queueMicrotask(() => { throw err; });
+                        }
+                    }
+                    break;
+                }
+                case 'prop_changed': {
+                    this.livePropertyChanged(peer, message.objId, message.prop, message.value, replyChannel);
                     break;
                 }
                 case 'fn_reply': {
                     if (message.callType === 'async') {
-                        const result = this.processAfterSerialization(message.result, replyChannel);
                         const callbacks = this.asyncCallbacks.get(message.callId);
-                        callbacks?.[message.success ? 'resolve' : 'reject'](result);
+                        // the call has timed out, discard the late reply
+                        if (!callbacks) break;
+                        let { success } = message;
+                        let result: unknown;
+                        try {
+                            result = this.processAfterSerialization(message.result, replyChannel);
+                        } catch (err) {
+                            // the call fails with the error of the deserialization
+                            success = false;
+                            result = err;
+                        }
+                        callbacks.cleanup?.();
                         this.asyncCallbacks.delete(message.callId);
+                        callbacks[success ? 'resolve' : 'reject'](result);
                     }
                     break;
                 }
+                case 'fn_cancel': {
+                    peer.hostCallControllers.get(message.callId)?.abort();
+                    peer.hostCallControllers.delete(message.callId);
+                    break;
+                }
             }
         }
     }
 
+    /**
+     * Processes the messages that waited for the class descriptors, in order. Dropped if the peer has been disconnected.
+     */
+    private processInboundQueue(peer: PeerState) {
+        const queue = peer.inboundQueue ?? [];
+        peer.inboundQueue = undefined;
+        if (this.peers.get(peer.peerId) !== peer) return;
+
+        // a message may start fetching again, then the rest wait behind it
+        queue.forEach(({ message, replyChannel, context }, idx) => {
+            try {
+                this.processMessage(message, replyChannel, context, idx === 0);
+            } catch (err) {
+                // there is no channel to throw to here, and the rest of the messages must not be lost
+                queueMicrotask(() => { throw err; });
+            }
+        });
+    }
 
     private serializeFunctionArgs(func: FunctionDescriptor, args: any[], replyChannel: RPCChannel) {
-        return args.map((arg, idx) => this.processBeforeSerialization(arg, replyChannel, getArgumentDescriptor(func, idx)));
+        const context = this.createSerializationContext(args);
+        return args.map((arg, idx) => this.serializeArrayItem(arg, replyChannel, getArgumentDescriptor(func, idx), context));
     }
 
     private deserializeFunctionArgs(func: FunctionDescriptor, args: any[], replyChannel: RPCChannel) {
-        return args.map((arg, idx) => this.processAfterSerialization(arg, replyChannel, getArgumentDescriptor(func, idx)));
+        const refs: DeserializationRefs = new Map();
+        return args.map((arg, idx) => this.processAfterSerialization(arg, replyChannel, getArgumentDescriptor(func, idx), refs));
     }
 
     private createVoidProxyFunction(objId: string|null, func: FunctionDescriptor, action: RPC_VoidCallAction, replyChannel: RPCChannel) {
         // eslint-disable-next-line @typescript-eslint/no-this-alias
         const _this = this;
         const fn = function (this: any, ...args: any[]) {
-            if ((fn as any)[rpc_disposed]) throw new Error('Remote function has been disposed');
-            _this.sendAsyncIfPossible({
-                action,
-                callType: 'void',
-                objId: objId ?? this[proxyObjectId],
-                // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-                prop: func.name!,
-                args: _this.serializeFunctionArgs(func, args, replyChannel)
-            }, replyChannel);
+            checkNotDisposed(fn, this, objId);
+            // call options only apply to async calls
+            extractCallOptions(args);
+            const targetId = objId ?? this[proxyObjectId];
+            _this.preValidate(func, args, targetId);
+            const span = _this.startClientSpan(fn, this, action, 'void', targetId, func.name, replyChannel);
+            try {
+                _this.sendAsyncIfPossible({
+                    action,
+                    callType: 'void',
+                    objId: targetId,
+                    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+                    prop: func.name!,
+                    args: _this.serializeFunctionArgs(func, args, replyChannel),
+                    trace: span?.context
+                }, replyChannel);
+                span?.end(true);
+            } catch (err) {
+                span?.end(false, err);
+                throw err;
+            }
         };
         return fn;
     }
@@ -371,21 +1850,33 @@ export class SuperRPC {
         // eslint-disable-next-line @typescript-eslint/no-this-alias
         const _this = this;
         const fn = function (this: any, ...args: any[]) {
-            if ((fn as any)[rpc_disposed]) throw new Error('Remote function has been disposed');
-            const response = _this.sendSync({
-                action,
-                callType: 'sync',
-                objId: objId ?? this[proxyObjectId],
-                // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-                prop: func.name!,
-                args: _this.serializeFunctionArgs(func, args, replyChannel)
-            }, replyChannel);
-
-            if (!response) throw new Error('No response received');
-            if (!_this.checkMarker(response)) throw new Error(`Invalid response ${JSON.stringify(response)}`);
-
-            if (!response.success) throw new Error(response.result);
-            return _this.processAfterSerialization(response.result, replyChannel);
+            checkNotDisposed(fn, this, objId);
+            extractCallOptions(args);
+            const targetId = objId ?? this[proxyObjectId];
+            _this.preValidate(func, args, targetId);
+            const span = _this.startClientSpan(fn, this, action, 'sync', targetId, func.name, replyChannel);
+            try {
+                const response = _this.sendSync({
+                    action,
+                    callType: 'sync',
+                    objId: targetId,
+                    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+                    prop: func.name!,
+                    args: _this.serializeFunctionArgs(func, args, replyChannel),
+                    trace: span?.context
+                }, replyChannel);
+
+                if (!response) throw new Error('No response received');
+                if (!_this.checkMarker(response)) throw new Error(`Invalid response ${JSON.stringify(response)}`);
+
+                const result = _this.processAfterSerialization(response.result, replyChannel);
+                if (!response.success) throw result;
+                span?.end(true);
+                return result;
+            } catch (err) {
+                span?.end(false, err);
+                throw err;
+            }
         };
         return fn;
     }
@@ -394,23 +1885,63 @@ export class SuperRPC {
         // eslint-disable-next-line @typescript-eslint/no-this-alias
         const _this = this;
         const fn = function (this: any, ...args: any[]) {
-            return new Promise((resolve, reject) => {
-                if ((fn as any)[rpc_disposed]) throw new Error('Remote function has been disposed');
-                _this.callId++;
-                _this.sendAsync({
-                    action, callType: 'async',
-                    objId: objId ?? this[proxyObjectId],
-                    callId: _this.callId,
-                    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-                    prop: func.name!,
-                    args: _this.serializeFunctionArgs(func, args, replyChannel)
-                }, replyChannel);
-                _this.asyncCallbacks.set(_this.callId, { resolve, reject });
+            return new Promise((resolvePromise, rejectPromise) => {
+                checkNotDisposed(fn, this, objId);
+                const options = extractCallOptions(args);
+                const signal = options?.signal;
+                const callId = ++_this.callId;
+                const targetId = objId ?? this[proxyObjectId];
+                if (signal?.aborted) throw new RPCAbortError(targetId, func.name);
+                _this.preValidate(func, args, targetId);
+
+                const span = _this.startClientSpan(fn, this, action, 'async', targetId, func.name, replyChannel);
+                const resolve = (value?: any) => { span?.end(true); resolvePromise(value); };
+                const reject = (err?: any) => { span?.end(false, err); rejectPromise(err); };
+
+                // settles the call locally and tells the other side to stop working on it
+                const cancel = (err: Error) => {
+                    cleanup();
+                    _this.asyncCallbacks.delete(callId);
+                    _this.sendAsync({ action: 'fn_cancel', callId }, replyChannel);
+                    reject(err);
+                };
+
+                const timeout = options?.timeout ?? func.timeout ?? _this.options.callTimeout;
+                const timer = timeout ? setTimeout(() => cancel(new RPCTimeoutError(timeout, targetId, func.name)), timeout) : undefined;
+                const onAbort = () => cancel(new RPCAbortError(targetId, func.name));
+                signal?.addEventListener('abort', onAbort);
+
+                const cleanup = () => {
+                    if (timer) clearTimeout(timer);
+                    signal?.removeEventListener('abort', onAbort);
+                };
+                // before sending, the reply may arrive synchronously (e.g. through an in-process stream)
+                _this.asyncCallbacks.set(callId, { resolve, reject, cleanup, peerId: replyChannel.peerId });
+
+                try {
+                    _this.sendAsync({
+                        action, callType: 'async',
+                        objId: targetId,
+                        callId,
+                        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+                        prop: func.name!,
+                        args: _this.serializeFunctionArgs(func, args, replyChannel),
+                        trace: span?.context
+                    }, replyChannel);
+                } catch (err) {
+                    cleanup();
+                    _this.asyncCallbacks.delete(callId);
+                    reject(err);
+                }
             });
         };
         return fn;
     }
 
+    private preValidate(func: FunctionDescriptor, args: unknown[], objId: string) {
+        if (this.options.validateArguments) this.checkValidation(validateArguments(func, args), objId, func.name);
+    }
+
     private createProxyFunction(
         objId: string | null,
         prop: string | FunctionDescriptor,
@@ -421,8 +1952,8 @@ export class SuperRPC {
         const descriptor = (typeof prop === 'object') ? prop : { name: prop };
         let callType = descriptor?.returns || defaultCallType;
 
-        if (callType === 'async' && !replyChannel.sendAsync) callType = 'sync';
-        if (callType === 'sync' && !replyChannel.sendSync) callType = 'async';
+        if (callType === 'async' && !this.supportsCallType(replyChannel, 'async')) callType = 'sync';
+        if (callType === 'sync' && !this.supportsCallType(replyChannel, 'sync')) callType = 'async';
 
         switch (callType) {
             case 'void': return this.createVoidProxyFunction(objId, descriptor, <RPC_VoidCallAction>action, replyChannel);
@@ -436,23 +1967,29 @@ export class SuperRPC {
      *
      * This side must have the descriptor for the object.
      * See [[sendRemoteDescriptors]], [[requestRemoteDescriptors]].
+     *
+     * The proxy is typed if the type of the host object and its descriptor (declared with a `const` type) are given,
+     * see [[ProxyType]].
+     *
+     * @param peerId The peer hosting the object (see [[RPCChannel.peerId]]). Omit it for the other end of the connected channel.
      */
-    getProxyObject(objId: string) {
-        let obj: any = this.proxyObjectRegistry.get(objId);
+    getProxyObject<TTarget = any, TDescriptor extends ObjectDescriptor | FunctionDescriptor = any>(objId: string, peerId?: string): ProxyType<TTarget, TDescriptor> {
+        const peer = this.getPeer(peerId);
+        let obj: any = peer.proxyObjectRegistry.get(objId);
         if (obj) return obj;
 
-        const descriptor = this.remoteObjectDescriptors?.[objId];
+        const descriptor = peer.remoteObjectDescriptors?.[objId];
         if (!descriptor) {
             throw new Error(`No object registered with ID '${objId}'`);
         }
 
         if (isFunctionDescriptor(descriptor)) {
-            obj = this.createProxyFunction(objId, descriptor, 'fn_call');
+            obj = this.createProxyFunction(objId, descriptor, 'fn_call', 'async', peer.channel);
         } else {
-            obj = this.createProxyObject(objId, descriptor);
+            obj = this.createProxyObject(objId, descriptor, peer.channel);
         }
 
-        this.proxyObjectRegistry.register(objId, obj);
+        peer.proxyObjectRegistry.register(objId, obj);
         return obj;
     }
 
@@ -464,50 +2001,105 @@ export class SuperRPC {
      * on its prototype as expected.
      * - If an instance of the registered host class is being sent from the other side,
      * an instance of this proxy class will be created and passed on this side.
+     *
+     * The proxy class is typed if the type of the host class and its descriptor (declared with a `const` type) are given,
+     * see [[ProxyClassType]].
+     *
+     * @param peerId The peer hosting the class (see [[RPCChannel.peerId]]). Omit it for the other end of the connected channel.
      */
-    getProxyClass(classId: string): AnyConstructor {
-        let clazz = this.proxyClassRegistry.get(classId);
-        if (clazz) return clazz;
+    getProxyClass<TClass extends AnyConstructor = AnyConstructor, TDescriptor extends ClassDescriptor = any>(classId: string, peerId?: string): ProxyClassType<TClass, TDescriptor> {
+        const peer = this.getPeer(peerId);
+        let clazz = peer.proxyClassRegistry.get(classId);
+        if (clazz) return <any>clazz;
 
-        const descriptor = this.remoteClassDescriptors?.[classId];
+        const descriptor = peer.remoteClassDescriptors?.[classId];
         if (!descriptor) {
             throw new Error(`No class registered with ID '${classId}'`);
         }
 
-        clazz = <AnyConstructor>(descriptor.ctor ? this.createProxyFunction(classId + '.ctor', descriptor.ctor, 'ctor_call', 'sync')
+        clazz = <AnyConstructor>(descriptor.ctor ? this.createProxyFunction(classId + '.ctor', descriptor.ctor, 'ctor_call', 'sync', peer.channel)
             : function () { throw new Error(`Constructor of class '${classId}' is not defined`); });
 
         // create the proxy functions/properties on the prototype with no objId, so each function will look up "proxyObjectId" on "this"
         // so the prototype will work with multiple instances
-        this.createProxyObject(null, descriptor.instance as ObjectDescriptorWithProps, clazz.prototype);
+        this.createProxyObject(null, descriptor.instance as ObjectDescriptorWithProps, peer.channel, clazz.prototype);
 
         // add static functions/props
-        const staticDescr = descriptor.static as ObjectDescriptorWithProps ?? {};
-        const objDescr = this.remoteObjectDescriptors?.[classId];
+        // a copy, the received descriptor is compared with the updates (see [[RemoteDescriptorsChange]])
+        const staticDescr: ObjectDescriptorWithProps = { ...descriptor.static };
+        const objDescr = peer.remoteObjectDescriptors?.[classId];
         if (!isFunctionDescriptor(objDescr)) {
             staticDescr.props = objDescr?.props;
+            staticDescr.liveProps = objDescr?.liveProps;
         }
-        this.createProxyObject(classId, staticDescr, clazz);
+        this.createProxyObject(classId, staticDescr, peer.channel, clazz);
+
+        (clazz as any)[classIdSym] = classId;
+        peer.proxyClassRegistry.set(classId, clazz);
+
+        return <any>clazz;
+    }
 
-        this.proxyClassRegistry.set(classId, clazz);
+    /**
+     * Like [[getProxyObject]], but if the descriptor of the object is not known yet, only that one is requested from the other side,
+     * instead of all of them (see [[requestRemoteDescriptors]]).
+     *
+     * @param peerId The peer hosting the object (see [[RPCChannel.peerId]]). Omit it for the other end of the connected channel.
+     */
+    async getProxyObjectAsync<TTarget = any, TDescriptor extends ObjectDescriptor | FunctionDescriptor = any>(objId: string, peerId?: string):
+        Promise<ProxyType<TTarget, TDescriptor>>
+    {
+        const peer = this.getPeer(peerId);
+        if (!peer.remoteObjectDescriptors?.[objId]) {
+            // a peer that can not send single descriptors sends all of them
+            await (this.supportsExtension(peer, 'objectDescriptors') ? this.requestObjectDescriptors(peer, [objId], []) : this.requestRemoteDescriptors(peerId));
+        }
+        return this.getProxyObject<TTarget, TDescriptor>(objId, peerId);
+    }
 
-        return clazz;
+    /**
+     * Like [[getProxyClass]], but if the descriptor of the class is not known yet, only that one (and its static object)
+     * is requested from the other side.
+     *
+     * Note: the classes of the instances received from the other side are requested on demand too.
+     * @param peerId The peer hosting the class (see [[RPCChannel.peerId]]). Omit it for the other end of the connected channel.
+     */
+    async getProxyClassAsync<TClass extends AnyConstructor = AnyConstructor, TDescriptor extends ClassDescriptor = any>(classId: string, peerId?: string):
+        Promise<ProxyClassType<TClass, TDescriptor>>
+    {
+        const peer = this.getPeer(peerId);
+        if (!peer.remoteClassDescriptors?.[classId]) {
+            await (this.supportsExtension(peer, 'objectDescriptors') ? this.requestObjectDescriptors(peer, [], [classId]) : this.requestRemoteDescriptors(peerId));
+        }
+        return this.getProxyClass<TClass, TDescriptor>(classId, peerId);
     }
 
-    private createProxyObject(objId: string|null, descriptor?: ObjectDescriptorWithProps, obj: any = {}) {
+    private createProxyObject(objId: string|null, descriptor: ObjectDescriptorWithProps|undefined, replyChannel: RPCChannel, obj: any = {}) {
         Object.assign(obj, descriptor?.props);
+        // the prototype of a proxy class has no values, the instances get their own
+        if (objId !== null && descriptor?.liveProps) {
+            const values: any = obj[liveValuesSym] = {};
+            for (const [prop, value] of Object.entries(descriptor.liveProps)) {
+                values[prop] = this.processAfterSerialization(value, replyChannel);
+            }
+        }
+
+        if (descriptor?.events?.length || getLivePropertyNames(descriptor).length) {
+            this.createProxyEventFunctions(objId, descriptor as ObjectDescriptor, replyChannel, obj);
+        }
 
         for (const prop of descriptor?.functions ?? []) {
-            obj[getPropName(prop)] = this.createProxyFunction(objId, prop, 'method_call');
+            obj[getPropName(prop)] = this.createProxyFunction(objId, prop, 'method_call', 'async', replyChannel);
         }
 
-        const setterCallType = this.channel.sendSync ? 'sync' : 'void';
+        const setterCallType = this.supportsCallType(replyChannel, 'sync') ? 'sync' : 'void';
 
         for (const prop of descriptor?.proxiedProperties ?? []) {
             const descr = typeof prop === 'string' ? { name: prop } : prop;
-            Object.defineProperty(obj, descr.name, {
-                get: <AnyFunction>this.createProxyFunction(objId, { ...descr.get, name: descr.name }, 'prop_get', 'sync'),
-                set: descr.readonly ? undefined : <AnyFunction>this.createProxyFunction(objId, { ...descr.set, name: descr.name }, 'prop_set', setterCallType)
+            const setter = descr.readonly ? undefined : <AnyFunction>this.createProxyFunction(objId, { ...descr.set, name: descr.name }, 'prop_set', setterCallType, replyChannel);
+            Object.defineProperty(obj, descr.name, descr.live ? this.createLivePropertyAccessor(objId, descr.name, setter, replyChannel) : {
+                get: <AnyFunction>this.createProxyFunction(objId, { ...descr.get, name: descr.name }, 'prop_get', 'sync', replyChannel),
+                set: setter
             });
         }
 
@@ -516,17 +2108,263 @@ export class SuperRPC {
         return obj;
     }
 
-    private registerLocalObj(obj: any, descriptor: FunctionDescriptor | ObjectDescriptor) {
+    /**
+     * Adds the `on`, `off`, `once` and `events` functions to a proxy object, see [[ObjectDescriptor.events]].
+     */
+    private createProxyEventFunctions(objId: string|null, descriptor: ObjectDescriptor, replyChannel: RPCChannel, obj: any) {
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        const _this = this;
+        const getTargetId = (scope: any) => {
+            if (scope?.[revokedSym]) throw new RPCRevokedError(objId ?? scope[proxyObjectId]);
+            if (scope?.[rpc_disposed]) throw new Error('Remote object has been disposed');
+            return objId ?? scope[proxyObjectId];
+        };
+
+        obj.on = function (this: any, event: string, listener: AnyFunction) {
+            _this.addProxyEventListener(getTargetId(this), descriptor, event, listener, replyChannel);
+            return this;
+        };
+        obj.off = function (this: any, event: string, listener: AnyFunction) {
+            _this.removeProxyEventListener(getTargetId(this), descriptor, event, listener, replyChannel);
+            return this;
+        };
+        obj.once = function (this: any, event: string, listener: AnyFunction) {
+            const onceListener = Object.assign((...args: unknown[]) => {
+                this.off(event, onceListener);
+                listener(...args);
+            }, { [onceListenerOf]: listener });
+            return this.on(event, onceListener);
+        };
+        obj.events = function (this: any, event: string) {
+            return createEventIterator(listener => this.on(event, listener), listener => this.off(event, listener));
+        };
+    }
+
+    private addProxyEventListener(objId: string, descriptor: ObjectDescriptor, event: string, listener: AnyFunction, replyChannel: RPCChannel) {
+        const isLocalEvent = this.isLocalProxyEvent(descriptor, event);
+        if (!isLocalEvent && !isMemberExposed(descriptor, 'event', event)) {
+            throw new Error(`Event '${event}' is not exposed by object ${objId}`);
+        }
+        const peer = this.getPeer(replyChannel);
+        if (!isLocalEvent) this.checkRemoteFeature(replyChannel, 'events', 'events');
+        const { eventListeners } = peer;
+        let events = eventListeners.get(objId);
+        if (!events) eventListeners.set(objId, events = new Map());
+
+        let listeners = events.get(event);
+        if (!listeners) {
+            // one subscription per object and event, no matter how many listeners there are
+            events.set(event, listeners = new Set());
+            if (!isLocalEvent) this.sendAsyncIfPossible({ action: 'event_sub', objId, event }, replyChannel);
+        }
+        listeners.add(listener);
+    }
+
+    private removeProxyEventListener(objId: string, descriptor: ObjectDescriptor, event: string, listener: AnyFunction, replyChannel: RPCChannel) {
+        const eventListeners = this.peers.get(replyChannel.peerId ?? defaultPeerId)?.eventListeners;
+        const events = eventListeners?.get(objId);
+        const listeners = events?.get(event);
+        if (!listeners) return;
+
+        for (const item of listeners) {
+            if (item === listener || (item as any)[onceListenerOf] === listener) {
+                listeners.delete(item);
+                break;
+            }
+        }
+
+        if (listeners.size === 0) {
+            events?.delete(event);
+            if (events?.size === 0) eventListeners?.delete(objId);
+            if (!this.isLocalProxyEvent(descriptor, event)) this.sendAsyncIfPossible({ action: 'event_unsub', objId, event }, replyChannel);
+        }
+    }
+
+    /**
+     * The `propertyChanged` event of an object with live properties is emitted by the proxy itself, not by the host object.
+     */
+    private isLocalProxyEvent(descriptor: ObjectDescriptor, event: string) {
+        return event === propertyChangedEvent && getLivePropertyNames(descriptor).length > 0;
+    }
+
+    /**
+     * Creates the accessor of a live property: it reads the value from the cache of the proxy object,
+     * and assigning a value calls the host and updates the cache right away.
+     */
+    private createLivePropertyAccessor(objId: string|null, prop: string, setter: AnyFunction | undefined, replyChannel: RPCChannel): PropertyDescriptor {
+        // eslint-disable-next-line @typescript-eslint/no-this-alias
+        const _this = this;
+        return {
+            get(this: any) {
+                return this[liveValuesSym]?.[prop];
+            },
+            set: setter && function (this: any, value: unknown) {
+                setter.call(this, value);
+                _this.livePropertyChanged(_this.getPeer(replyChannel), objId ?? this[proxyObjectId], prop, value);
+            }
+        };
+    }
+
+    /**
+     * Updates the cached value of a live property on the proxy object and emits its `propertyChanged` event.
+     * @param value The new value, serialized if the reply channel is given.
+     */
+    private livePropertyChanged(peer: PeerState, objId: string, prop: string, value: unknown, replyChannel?: RPCChannel) {
+        const obj = peer.proxyObjectRegistry.get(objId) ?? peer.proxyClassRegistry.get(objId);
+        if (!obj) {
+            // the proxy has not been created yet, it will start with the new value
+            const descriptor = peer.remoteObjectDescriptors?.[objId];
+            if (replyChannel && descriptor && !isFunctionDescriptor(descriptor)) {
+                descriptor.liveProps = { ...descriptor.liveProps, [prop]: value };
+            }
+            return;
+        }
+
+        if (replyChannel) value = this.processAfterSerialization(value, replyChannel);
+        const values = obj[liveValuesSym] ??= {};
+        const oldValue = values[prop];
+        values[prop] = value;
+
+        if (value === oldValue) return;
+        for (const listener of [...peer.eventListeners.get(objId)?.get(propertyChangedEvent) ?? []]) {
+            listener(prop, value, oldValue);
+        }
+    }
+
+    /**
+     * Drops the event listeners of a proxy object, when no more events will be delivered (e.g. it has been disposed).
+     */
+    private removeProxyEventListeners(peer: PeerState, objId: string) {
+        const events = peer.eventListeners.get(objId);
+        peer.eventListeners.delete(objId);
+        for (const listeners of events?.values() ?? []) {
+            for (const listener of listeners) {
+                (listener as any)[eventsEnded]?.();
+            }
+        }
+    }
+
+    private subscribeHostEvent(peer: PeerState, objId: string, event: string, context?: any) {
+        const entry = this.hostObjectRegistry.get(objId);
+        if (!entry || !isMemberExposed(entry.descriptor as ObjectDescriptor, 'event', event)) return;
+        try {
+            this.authorize({ action: 'event_sub', objId, prop: event, context, peerId: peer.channel.peerId }, entry.options?.authorize);
+        } catch {
+            // the subscriber is not waiting for an answer
+            return;
+        }
+
+        let subscriptions = peer.eventSubscriptions.get(objId);
+        if (!subscriptions) peer.eventSubscriptions.set(objId, subscriptions = new Map());
+        if (subscriptions.has(event)) return;
+
+        const unsubscribe = addHostEventListener(entry.target, event, (...args: unknown[]) => {
+            this.sendAsyncIfPossible({ action: 'event', objId, event, args: this.serializeFunctionArgs({}, args, peer.channel) }, peer.channel);
+        });
+        if (unsubscribe) subscriptions.set(event, unsubscribe);
+    }
+
+    /**
+     * Removes the listeners of the peer from a host object, from all of its events if `event` is not given.
+     */
+    private unsubscribeHostEvents(peer: PeerState, objId: string, event?: string) {
+        const subscriptions = peer.eventSubscriptions.get(objId);
+        if (!subscriptions) return;
+
+        for (const [name, unsubscribe] of subscriptions) {
+            if (event !== undefined && name !== event) continue;
+            unsubscribe();
+            subscriptions.delete(name);
+        }
+        if (subscriptions.size === 0) peer.eventSubscriptions.delete(objId);
+    }
+
+    /**
+     * Replaces the live properties of a host object with accessors that push the new value to the other side(s)
+     * when it is changed through the setter. Read-only and non-configurable properties are left alone.
+     */
+    private interceptLiveProperties(target: any, descriptor: ObjectDescriptor) {
+        for (const prop of getLivePropertyNames(descriptor)) {
+            let owner = target;
+            let original: PropertyDescriptor | undefined;
+            while (owner && !(original = Object.getOwnPropertyDescriptor(owner, prop))) {
+                owner = Object.getPrototypeOf(owner);
+            }
+
+            if ((original?.set as any)?.[liveSetterSym]) continue;
+            if (original && (original.get ? !original.set : !original.writable)) continue;
+            if (owner === target && original?.configurable === false) continue;
+
+            let value = original?.value;
+            const get = original?.get ? () => original?.get?.call(target) : () => value;
+            const set = (newValue: unknown) => {
+                const oldValue = get();
+                if (original?.set) original.set.call(target, newValue);
+                else value = newValue;
+                if (get() !== oldValue) this.notifyPropertyChanged(target, prop);
+            };
+
+            Object.defineProperty(target, prop, {
+                get,
+                set: Object.assign(set, { [liveSetterSym]: true }),
+                enumerable: original?.enumerable ?? true,
+                configurable: true
+            });
+        }
+    }
+
+    /**
+     * Sends the current value of a live property (see [[PropertyDescriptor.live]]) to the peers that have access to the object.
+     *
+     * Assigning a live property is detected automatically, this is needed for other changes,
+     * e.g. when the value is computed by a getter or it is changed by a method of the host object.
+     * @param target The host object, or its ID.
+     * @param prop The name of the live property.
+     */
+    notifyPropertyChanged(target: object | string, prop: string) {
+        const objId: string = typeof target === 'string' ? target : (target as any)[hostObjectId];
+        const entry = this.hostObjectRegistry.get(objId);
+        // the object has been released by the other side(s)
+        if (!entry) return;
+        if (!getLivePropertyNames(entry.descriptor as ObjectDescriptor).includes(prop)) {
+            throw new Error(`Property '${prop}' of object ${objId} is not live`);
+        }
+
+        for (const channel of this.getPeerChannels(entry.peers)) {
+            // a peer that does not support live properties reads them from the host object
+            if (!this.supportsExtension(this.peers.get(channel.peerId ?? defaultPeerId), 'liveProperties')) continue;
+            const value = this.processBeforeSerialization(entry.target[prop], channel);
+            this.sendAsyncIfPossible({ action: 'prop_changed', objId, prop, value }, channel);
+        }
+    }
+
+    /**
+     * The channels of the given peers, e.g. the ones a host object was sent to.
+     * All peers by default (including the other end of the connected channel).
+     */
+    private getPeerChannels(peerIds: Iterable<string> = new Set([defaultPeerId, ...this.peers.keys()])) {
+        const channels: RPCChannel[] = [];
+        for (const peerId of peerIds) {
+            const channel = peerId === defaultPeerId ? (this.connected ? this.channel : undefined) : this.peers.get(peerId)?.channel;
+            if (channel) channels.push(channel);
+        }
+        return channels;
+    }
+
+    private registerLocalObj(obj: any, descriptor: FunctionDescriptor | ObjectDescriptor, replyChannel: RPCChannel, options?: HostObjectOptions) {
         let objId = obj[hostObjectId];
-        if (!this.hostObjectRegistry.has(objId)) {
+        let entry = this.hostObjectRegistry.get(objId);
+        if (!entry) {
             objId = this.objectIdGenerator();
-            this.hostObjectRegistry.set(objId, { target: obj, descriptor });
+            this.hostObjectRegistry.set(objId, entry = { target: obj, descriptor, peers: new Set(), options });
             obj[hostObjectId] = objId;
+            if (!isFunctionDescriptor(descriptor)) this.interceptLiveProperties(obj, descriptor);
         }
+        entry.peers?.add(replyChannel.peerId ?? defaultPeerId);
         return objId;
     }
 
-    private processBeforeSerialization(obj: any, replyChannel: RPCChannel, descriptor?: Descriptor) {
+    private processBeforeSerialization(obj: any, replyChannel: RPCChannel, descriptor?: Descriptor, context = this.createSerializationContext(obj)): any {
         if (obj?.[proxyObjectId]) {
             return { _rpc_type: 'hostObject', objId: obj[proxyObjectId] };
         }
@@ -540,47 +2378,155 @@ export class SuperRPC {
                     if (!this.hostObjectRegistry.has((obj as any)[hostObjectId])) {
                         let result: unknown;
                         let success: boolean;
-                        obj.then(
+                        obj.then(value => this.processBeforeSerialization(value, replyChannel)).then(
                             (value) => { result = value; success = true; },
-                            (value) => { result = value; success = false; }
-                        ).finally(() => this.sendAsyncIfPossible({ action: 'fn_reply', callType: 'async', success, result, callId: objId }, replyChannel));
+                            (value) => { result = this.processBeforeSerialization(value, replyChannel); success = false; }
+                        ).finally(() => this.sendAsyncIfPossible({
+                            action: 'fn_reply', callType: 'async', success, callId: objId, result
+                        }, replyChannel));
                     }
-                    const objId = this.registerLocalObj(obj, {});
+                    const objId = this.registerLocalObj(obj, {}, replyChannel);
                     return { _rpc_type: 'object', objId, classId: 'Promise' };
                 }
 
-                const entry = this.hostClassRegistry.get(obj.constructor?.[classIdSym]);
-                if (entry) {
-                    const objId = this.registerLocalObj(obj, entry.descriptor.instance ?? {});
-                    const props: any = {};
-
-                    for (const prop of entry.descriptor.instance?.readonlyProperties ?? []) {
-                        const propName = getPropName(prop);
-                        props[propName] = this.processBeforeSerialization(obj[propName], replyChannel);
-                    }
+                // AsyncIterables and ReadableStreams are iterated by the other side, on demand
+                if (this.isSentAsAsyncIterator(obj)) {
+                    this.checkRemoteFeature(replyChannel, 'asyncIterators', 'async iterables');
+                    let source = this.asyncIteratorSources.get(obj);
+                    if (!source) this.asyncIteratorSources.set(obj, source = createAsyncIteratorSource(obj));
+                    const objId = this.registerLocalObj(source, asyncIteratorSourceDescriptor, replyChannel);
+                    return { _rpc_type: 'asyncIterator', objId };
+                }
 
-                    return { _rpc_type: 'object', classId: entry.descriptor.classId, props, objId };
+                if (!context.shared.has(obj)) {
+                    return this.serializeObject(obj, replyChannel, context);
                 }
 
-                for (const key of Object.keys(obj)) {
-                    obj[key] = this.processBeforeSerialization(obj[key], replyChannel);
+                let id = context.ids.get(obj);
+                if (id !== undefined) {
+                    // the other side can only reference a Map, Error, etc. after it is re-created with its content
+                    if (context.pending.has(obj)) throw new Error('Cyclic references are only supported through plain objects and arrays');
+                    return { _rpc_type: 'ref', id };
                 }
-                break;
+                context.ids.set(obj, id = context.ids.size);
+                return { _rpc_type: 'ref', id, value: this.serializeObject(obj, replyChannel, context) };
+            }
+            case 'bigint': {
+                return this.serializeValue(obj, replyChannel, context) ?? obj;
             }
             case 'function': {
-                const objId = this.registerLocalObj(obj, descriptor as FunctionDescriptor);
+                const objId = this.registerLocalObj(obj, descriptor as FunctionDescriptor, replyChannel);
                 return { _rpc_type: 'function', objId };
             }
         }
         return obj;
     }
 
-    private processAfterSerialization(obj: any, replyChannel: RPCChannel, descriptor?: Descriptor) {
+    /**
+     * Serializes an object (that is not a proxy or a Promise) to a new object, the original is not changed.
+     */
+    private serializeObject(obj: any, replyChannel: RPCChannel, context: SerializationContext): object {
+        const entry = this.hostClassRegistry.get(obj.constructor?.[classIdSym]);
+
+        if (context.pending.has(obj)) {
+            // an instance of a registered class referencing itself, the other side will find the proxy object by its ID
+            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+            return { _rpc_type: 'object', classId: entry!.descriptor.classId, objId: obj[hostObjectId] };
+        }
+
+        context.pending.add(obj);
+        try {
+            // instances of registered classes are sent as proxy objects, even if they are e.g. Maps or Errors
+            if (entry) {
+                const objId = this.registerLocalObj(obj, entry.descriptor.instance ?? {}, replyChannel, entry.options);
+                const props: any = {};
+
+                for (const prop of entry.descriptor.instance?.readonlyProperties ?? []) {
+                    const propName = getPropName(prop);
+                    props[propName] = this.processBeforeSerialization(obj[propName], replyChannel, undefined, context);
+                }
+
+                const liveProps = getLivePropertyNames(entry.descriptor.instance);
+                if (!liveProps.length) return { _rpc_type: 'object', classId: entry.descriptor.classId, props, objId };
+
+                const live: any = {};
+                for (const propName of liveProps) {
+                    live[propName] = this.processBeforeSerialization(obj[propName], replyChannel, undefined, context);
+                }
+                return { _rpc_type: 'object', classId: entry.descriptor.classId, props, live, objId };
+            }
+
+            if (obj instanceof Error) {
+                return this.serializeError(obj, replyChannel, context);
+            }
+
+            const value = this.serializeValue(obj, replyChannel, context);
+            if (value) return value;
+        } finally {
+            context.pending.delete(obj);
+        }
+
+        if (Array.isArray(obj)) {
+            return obj.map(item => this.serializeArrayItem(item, replyChannel, undefined, context));
+        }
+
+        const result: any = {};
+        for (const key of Object.keys(obj)) {
+            result[key] = this.processBeforeSerialization(obj[key], replyChannel, undefined, context);
+        }
+        return result;
+    }
+
+    private createSerializationContext(root: unknown): SerializationContext {
+        return { shared: this.findSharedObjects(root), ids: new Map(), pending: new Set() };
+    }
+
+    /**
+     * Walks the objects the same way as [[processBeforeSerialization]] and returns the ones found more than once
+     * (shared or cyclic references). These are sent as refs, so the other side can rebuild the same graph.
+     */
+    private findSharedObjects(obj: any, seen = new Set<object>(), shared = new Set<object>()) {
+        if (typeof obj !== 'object' || !obj || obj[proxyObjectId] || obj.constructor === Promise || this.isSentAsAsyncIterator(obj)) return shared;
+
+        const entry = this.hostClassRegistry.get(obj.constructor?.[classIdSym]);
+        if (seen.has(obj)) {
+            // instances of registered classes are sent by reference anyway
+            if (!entry) shared.add(obj);
+            return shared;
+        }
+        seen.add(obj);
+
+        const visit = (item: unknown) => {
+            this.findSharedObjects(item, seen, shared);
+            return undefined;
+        };
+
+        const valueType = this.getValueType(obj);
+        if (entry) {
+            entry.descriptor.instance?.readonlyProperties?.forEach(prop => visit(obj[getPropName(prop)]));
+            getLivePropertyNames(entry.descriptor.instance).forEach(prop => visit(obj[prop]));
+        } else if (obj instanceof Error) {
+            Object.keys(obj).forEach(key => visit((obj as any)[key]));
+            visit((obj as any).cause);
+        } else if (valueType) {
+            valueType[1].serialize(obj, visit);
+        } else {
+            Object.values(obj).forEach(visit);
+        }
+        return shared;
+    }
+
+    private isSentAsAsyncIterator(obj: any) {
+        // instances of registered classes are sent as proxy objects, even if they are iterable
+        return !this.hostClassRegistry.has(obj.constructor?.[classIdSym]) && isAsyncIterable(obj);
+    }
+
+    private processAfterSerialization(obj: any, replyChannel: RPCChannel, descriptor?: Descriptor, refs: DeserializationRefs = new Map()): any {
         if (typeof obj !== 'object' || !obj) return obj;
 
         switch (obj._rpc_type) {
             case 'object': {
-                return this.getOrCreateProxyInstance(obj.objId, obj.classId, obj.props, replyChannel);
+                return this.getOrCreateProxyInstance(obj.objId, obj.classId, obj.props, obj.live, replyChannel, refs);
             }
             case 'function': {
                 return this.getOrCreateProxyFunction(obj.objId, replyChannel, descriptor as FunctionDescriptor);
@@ -588,46 +2534,188 @@ export class SuperRPC {
             case 'hostObject': {
                 return this.hostObjectRegistry.get(obj.objId)?.target;
             }
+            case 'error': {
+                return this.deserializeError(obj, replyChannel, refs);
+            }
+            case 'value': {
+                return this.deserializeValue(obj, replyChannel, refs);
+            }
+            case 'undefined': {
+                return undefined;
+            }
+            case 'asyncIterator': {
+                return this.getOrCreateProxyAsyncIterator(obj.objId, replyChannel);
+            }
+            case 'ref': {
+                if (!('value' in obj)) return refs.get(obj.id);
+
+                const { value } = obj;
+                if (typeof value === 'object' && value && !value._rpc_type) {
+                    // a plain object or array, create it first so its content can reference it
+                    const container = Array.isArray(value) ? [] : {};
+                    refs.set(obj.id, container);
+                    return this.deserializeObject(value, container, replyChannel, descriptor, refs);
+                }
+
+                const result = this.processAfterSerialization(value, replyChannel, descriptor, refs);
+                refs.set(obj.id, result);
+                return result;
+            }
         }
 
+        return this.deserializeObject(obj, Array.isArray(obj) ? [] : {}, replyChannel, descriptor, refs);
+    }
+
+    /**
+     * Deserializes the content of a plain object or array into `target`, the received message is not changed.
+     */
+    private deserializeObject(obj: any, target: any, replyChannel: RPCChannel, descriptor: Descriptor | undefined, refs: DeserializationRefs) {
         for (const key of Object.keys(obj)) {
-            obj[key] = this.processAfterSerialization(obj[key], replyChannel, getPropertyDescriptor(descriptor as ObjectDescriptor, key));
+            target[key] = this.processAfterSerialization(obj[key], replyChannel, getPropertyDescriptor(descriptor as ObjectDescriptor, key), refs);
         }
+        return target;
+    }
 
-        return obj;
+    /**
+     * JSON turns `undefined` array items into `null`, so they are sent tagged.
+     */
+    private serializeArrayItem(item: any, replyChannel: RPCChannel, descriptor: Descriptor | undefined, context: SerializationContext) {
+        return item === undefined ? { _rpc_type: 'undefined' } : this.processBeforeSerialization(item, replyChannel, descriptor, context);
+    }
+
+    private getValueType(value: unknown) {
+        for (const entry of this.valueTypes) {
+            if (entry[1].test(value)) return entry;
+        }
+    }
+
+    private serializeValue(value: unknown, replyChannel: RPCChannel, context: SerializationContext): object | undefined {
+        const [valueType, type] = this.getValueType(value) ?? [];
+        if (!type) return;
+        const remoteValueTypes = this.peers.get(replyChannel.peerId ?? defaultPeerId)?.remoteInfo?.features?.valueTypes;
+        if (remoteValueTypes && !remoteValueTypes.includes(valueType as string)) {
+            throw new Error(`The other side does not support the value type '${valueType}', see registerValueType`);
+        }
+
+        return {
+            _rpc_type: 'value',
+            valueType,
+            // nested values are tagged like array items, so `undefined` keys/items stay `undefined`
+            data: type.serialize(value, item => this.serializeArrayItem(item, replyChannel, undefined, context))
+        };
+    }
+
+    private deserializeValue(obj: any, replyChannel: RPCChannel, refs: DeserializationRefs): unknown {
+        const deserialize = (item: unknown): unknown => this.processAfterSerialization(item, replyChannel, undefined, refs);
+        const type = this.valueTypes.get(obj.valueType);
+
+        // an unknown type (not registered on this side) arrives as its data
+        return type ? type.deserialize(obj.data, deserialize) : deserialize(obj.data);
+    }
+
+    private serializeError(err: any, replyChannel: RPCChannel, context: SerializationContext): object {
+        const props: any = {};
+        for (const key of Object.keys(err)) {
+            if (!['name', 'message', 'stack', 'cause'].includes(key)) {
+                props[key] = this.processBeforeSerialization(err[key], replyChannel, undefined, context);
+            }
+        }
+
+        return {
+            _rpc_type: 'error',
+            errorClass: this.errorClassNames.get(err.constructor),
+            name: err.name,
+            message: err.message,
+            stack: this.options.sendErrorStack ? err.stack : undefined,
+            cause: this.processBeforeSerialization(err.cause, replyChannel, undefined, context),
+            props
+        };
+    }
+
+    private deserializeError(obj: any, replyChannel: RPCChannel, refs: DeserializationRefs) {
+        const errorClass = this.errorClassRegistry.get(obj.errorClass) ?? this.errorClassRegistry.get(obj.name) ?? Error;
+
+        // the constructor of a custom error class may have a different signature, so do not call it
+        const err = new Error(obj.message);
+        Object.setPrototypeOf(err, errorClass.prototype);
+
+        if (err.name !== obj.name) {
+            Object.defineProperty(err, 'name', { value: obj.name, writable: true, configurable: true });
+        }
+        if (obj.stack) {
+            Object.defineProperty(err, 'stack', { value: obj.stack, writable: true, configurable: true });
+        }
+        if (obj.cause !== undefined) {
+            Object.defineProperty(err, 'cause', { value: this.processAfterSerialization(obj.cause, replyChannel, undefined, refs), writable: true, configurable: true });
+        }
+        for (const key of Object.keys(obj.props ?? {})) {
+            (err as any)[key] = this.processAfterSerialization(obj.props[key], replyChannel, undefined, refs);
+        }
+        return err;
     }
 
     private sendObjectDied(objId: string, replyChannel = this.channel) {
+        // the events of a disposed proxy object are not delivered anymore
+        const peer = this.peers.get(replyChannel.peerId ?? defaultPeerId);
+        if (peer) this.removeProxyEventListeners(peer, objId);
         this.sendAsyncIfPossible({ action: 'obj_died', objId }, replyChannel);
     }
 
-    private getOrCreateProxyInstance(objId: string, classId: string, props: any, replyChannel: RPCChannel) {
-        let obj = this.proxyObjectRegistry.get(objId);
+    private getOrCreateProxyInstance(objId: string, classId: string, props: any, live: any, replyChannel: RPCChannel, refs: DeserializationRefs) {
+        const peer = this.getPeer(replyChannel);
+        const { proxyObjectRegistry } = peer;
+        let obj = proxyObjectRegistry.get(objId);
         if (obj) return obj;
 
-        obj = props ?? {};
-
         // special case for Promise
         if (classId === 'Promise') {
-            obj = new Promise((resolve, reject) => this.asyncCallbacks.set(objId, { resolve, reject }));
-        } else {
-            obj[proxyObjectId] = objId;
-            const clazz = this.getProxyClass(classId);
-            Object.setPrototypeOf(obj, clazz.prototype);
+            obj = new Promise((resolve, reject) => this.asyncCallbacks.set(objId, { resolve, reject, peerId: replyChannel.peerId }));
+            proxyObjectRegistry.register(objId, obj, () => this.sendObjectDied(objId, replyChannel));
+            return obj;
         }
 
-        this.proxyObjectRegistry.register(objId, obj, () => this.sendObjectDied(objId, replyChannel));
+        // the descriptor of the class could not be fetched in advance (e.g. the instance arrived in a sync message),
+        // it is only possible synchronously through the connected channel (the reply channel of a peer can only reply)
+        if (!peer.remoteClassDescriptors?.[classId] && peer.channel === this.channel && this.channel.sendSync && this.supportsExtension(peer, 'objectDescriptors')) {
+            this.requestObjectDescriptors(peer, [], [classId], true);
+        }
+
+        const clazz = this.getProxyClass(classId, replyChannel.peerId);
+        obj = { [proxyObjectId]: objId };
+
+        // register it before the props are deserialized, so they can reference the object itself
+        proxyObjectRegistry.register(objId, obj, () => this.sendObjectDied(objId, replyChannel));
+        this.deserializeObject(props ?? {}, obj, replyChannel, undefined, refs);
+        if (live) obj[liveValuesSym] = this.deserializeObject(live, {}, replyChannel, undefined, refs);
+        Object.setPrototypeOf(obj, clazz.prototype);
+
         return obj;
     }
 
+    private getOrCreateProxyAsyncIterator(objId: string, replyChannel: RPCChannel) {
+        const { proxyObjectRegistry } = this.getPeer(replyChannel);
+        let iterator = proxyObjectRegistry.get(objId);
+        if (iterator) return iterator;
+
+        const source = this.createProxyObject(objId, asyncIteratorSourceDescriptor, replyChannel);
+        // release the source as soon as the iteration is finished, instead of waiting for the GC
+        iterator = createProxyAsyncIterator(source, () => iterator[rpc_disposeFunc]());
+        proxyObjectRegistry.register(objId, iterator, () => this.sendObjectDied(objId, replyChannel));
+
+        return iterator;
+    }
+
     private getOrCreateProxyFunction(objId: string, replyChannel: RPCChannel, descriptor?: FunctionDescriptor) {
-        let fn = this.proxyObjectRegistry.get(objId);
+        const { proxyObjectRegistry } = this.getPeer(replyChannel);
+        let fn = proxyObjectRegistry.get(objId);
         if (fn) return fn;
 
         if (descriptor) descriptor.type = 'function';
         fn = this.createProxyFunction(objId, <any>descriptor, 'fn_call', 'async', replyChannel);
         fn[proxyObjectId] = objId;
-        this.proxyObjectRegistry.register(objId, fn, () => this.sendObjectDied(objId, replyChannel));
+        // calls of a function received in a call (e.g. an event listener) belong to the trace of that call
+        if (this.callContext?.trace) fn[traceParentSym] = this.callContext.trace;
+        proxyObjectRegistry.register(objId, fn, () => this.sendObjectDied(objId, replyChannel));
 
         return fn;
     }
@@ -0,0 +1,48 @@
+/* istanbul ignore file */
+
+/**
+ * Types used by the descriptor generator tests.
+ * @module
+ * @internal
+ */
+
+export interface Bounds {
+    x: number;
+    y: number;
+}
+
+export interface WindowService {
+    readonly id: number;
+    title: string;
+
+    getBounds(): Promise<Bounds>;
+    setBounds(bounds: Bounds): void;
+    isVisible(): boolean;
+    onMove: (listener: (bounds: Bounds) => void) => void;
+    readFile(path: string, progress?: (percent: number) => Promise<boolean>): Promise<string>;
+
+    /** @rpcIgnore */
+    internalStuff(): void;
+}
+
+export class Counter {
+    static readonly MAX = 10;
+    static create(start: number) {
+        return new Counter(start);
+    }
+
+    readonly name = 'counter';
+    private secret = 42;
+
+    constructor(public value: number, onChange?: (value: number) => void) {
+        onChange?.(value);
+    }
+
+    get doubled() {
+        return this.value * 2;
+    }
+
+    async increment() {
+        return ++this.value;
+    }
+}
@@ -0,0 +1,24 @@
+/* istanbul ignore file */
+
+/**
+ * The child process of the stream channel tests, it hosts a service over its stdio.
+ * @module
+ * @internal
+ */
+
+import { nanoid } from 'nanoid/non-secure';
+import { SuperRPC } from '../../super-rpc';
+import { createStreamChannel } from '../../rpc-channels';
+
+// not JSON, ignored by the other side
+console.log('child started');
+
+const rpc = new SuperRPC(nanoid);
+rpc.connect(createStreamChannel(process.stdin, process.stdout));
+
+rpc.registerHostObject('childService', {
+    add: (a: number, b: number) => a + b,
+    getPid: () => process.pid
+}, {
+    functions: ['add', 'getPid']
+});
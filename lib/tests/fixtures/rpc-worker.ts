@@ -0,0 +1,25 @@
+/* istanbul ignore file */
+
+/**
+ * The worker of the channel adapter tests, it hosts a service on its side of `parentPort`.
+ * @module
+ * @internal
+ */
+
+import { parentPort } from 'worker_threads';
+import { nanoid } from 'nanoid/non-secure';
+import { SuperRPC } from '../../super-rpc';
+import { createMessagePortChannel } from '../../rpc-channels';
+
+if (parentPort) {
+    const rpc = new SuperRPC(nanoid);
+    rpc.connect(createMessagePortChannel(parentPort));
+
+    rpc.registerHostObject('workerService', {
+        add: (a: number, b: number) => a + b,
+        callBack: async (callback: (value: number) => Promise<number>) => await callback(21),
+        exit: () => process.exit(0)
+    }, {
+        functions: ['add', 'callBack', { name: 'exit', returns: 'void' }]
+    });
+}
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { generateDescriptors, printDescriptors } from '../tools/generate-descriptors';
+
+describe('generate-descriptors', () => {
+    const fixture = path.join(__dirname, 'fixtures/descriptor-api.ts');
+    const descriptors = generateDescriptors(fixture, ['WindowService', 'Counter']);
+
+    test('interface', () => {
+        expect(descriptors.WindowService).toEqual({
+            type: 'object',
+            functions: [
+                'getBounds',
+                { name: 'setBounds', returns: 'void' },
+                { name: 'isVisible', returns: 'sync' },
+                { name: 'onMove', returns: 'void', arguments: [{ idx: 0, type: 'function', returns: 'void' }] },
+                { name: 'readFile', returns: 'async', arguments: [{ idx: 1, type: 'function', returns: 'async' }] }
+            ],
+            proxiedProperties: ['title'],
+            readonlyProperties: ['id']
+        });
+    });
+
+    test('class', () => {
+        expect(descriptors.Counter).toEqual({
+            type: 'class',
+            ctor: { arguments: [{ idx: 1, type: 'function', returns: 'void' }] },
+            static: {
+                type: 'object',
+                functions: [{ name: 'create', returns: 'sync' }],
+                readonlyProperties: ['MAX']
+            },
+            instance: {
+                type: 'object',
+                functions: ['increment'],
+                proxiedProperties: ['value', { name: 'doubled', readonly: true }],
+                readonlyProperties: ['name']
+            }
+        });
+    });
+
+    test('include/exclude', () => {
+        const { WindowService } = generateDescriptors(fixture, ['WindowService'], { include: ['getBounds', 'title', 'id'], exclude: ['id'] });
+        expect(WindowService).toEqual({ type: 'object', functions: ['getBounds'], proxiedProperties: ['title'] });
+    });
+
+    test('unknown type', () => {
+        expect(() => generateDescriptors(fixture, ['Nope'])).toThrowError('Nope');
+    });
+
+    test('print', () => {
+        const source = printDescriptors({ Bounds: { functions: ['a', { name: 'b', returns: 'void' }] } });
+        expect(source).toEqual([
+            '// Generated by generate-descriptors - do not edit.',
+            '',
+            'export const BoundsDescriptor = {',
+            '    functions: [',
+            '        \'a\',',
+            '        {',
+            '            name: \'b\',',
+            '            returns: \'void\'',
+            '        }',
+            '    ]',
+            '} as const;',
+            ''
+        ].join('\n'));
+    });
+
+    test('the printed descriptors type the proxies', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'descriptors-'));
+        const importPath = (file: string) => path.join(__dirname, file).replace(/\\/g, '/');
+        const files = {
+            descriptors: path.join(dir, 'descriptors.ts'),
+            usage: path.join(dir, 'usage.ts')
+        };
+        fs.writeFileSync(files.descriptors, printDescriptors(descriptors));
+        fs.writeFileSync(files.usage, [
+            `import { SuperRPC } from '${importPath('../super-rpc')}';`,
+            `import { Counter, WindowService } from '${importPath('fixtures/descriptor-api')}';`,
+            'import { CounterDescriptor, WindowServiceDescriptor } from \'./descriptors\';',
+            '',
+            'declare const rpc: SuperRPC;',
+            'rpc.registerHostObject(\'service\', {} as WindowService, WindowServiceDescriptor);',
+            'rpc.registerHostClass(\'Counter\', Counter, CounterDescriptor);',
+            '',
+            'const service = rpc.getProxyObject<WindowService, typeof WindowServiceDescriptor>(\'service\');',
+            'const visible: boolean = service.isVisible();',
+            'const title: Promise<string> = service.getBounds().then(() => service.title);',
+            '// @ts-expect-error skipped by @rpcIgnore',
+            'service.internalStuff();',
+            '',
+            'const ProxyCounter = rpc.getProxyClass<typeof Counter, typeof CounterDescriptor>(\'Counter\');',
+            'const counter = new ProxyCounter(1);',
+            'const name: string = counter.name;',
+            'const value: Promise<number> = counter.increment();',
+            'const max: number = ProxyCounter.MAX;',
+            '// @ts-expect-error private member',
+            'counter.secret;',
+            '',
+            'export { visible, title, name, value, max };',
+            ''
+        ].join('\n'));
+
+        try {
+            const program = ts.createProgram([files.usage], { strict: true, noEmit: true, target: ts.ScriptTarget.ESNext, moduleResolution: ts.ModuleResolutionKind.NodeJs });
+            const diagnostics = ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+            expect(diagnostics).toEqual([]);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
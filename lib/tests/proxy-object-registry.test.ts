@@ -1,4 +1,4 @@
-import { ProxyObjectRegistry, rpc_disposeFunc } from '../proxy-object-registry';
+import { ProxyObjectRegistry, rpc_disposed, rpc_disposeFunc } from '../proxy-object-registry';
 
 describe('ProxyObjectRegistry', () => {
     const registry = new ProxyObjectRegistry();
@@ -58,4 +58,30 @@ describe('ProxyObjectRegistry', () => {
         expect(obj2dispose).toHaveBeenCalled();
     });
 
+    test('dispose one', () => {
+        const obj1: any = {};
+        const obj1dispose = jest.fn();
+
+        registry.register('one', obj1, obj1dispose);
+        registry.dispose('one');
+
+        expect(registry.has('one')).toBeFalsy();
+        expect(obj1[rpc_disposed]).toBe(true);
+        expect(obj1dispose).not.toHaveBeenCalled();
+    });
+
+    test('dispose all', () => {
+        const obj1: any = {};
+        const obj1dispose = jest.fn();
+
+        registry.register('one', obj1, obj1dispose);
+        expect(registry.size).toBeGreaterThan(0);
+        registry.disposeAll();
+
+        expect(registry.size).toBe(0);
+        expect(registry.has('one')).toBeFalsy();
+        expect(obj1[rpc_disposed]).toBe(true);
+        expect(obj1dispose).not.toHaveBeenCalled();
+    });
+
 });
\ No newline at end of file
@@ -0,0 +1,521 @@
+import * as workerThreads from 'worker_threads';
+import { MessageChannel, MessagePort, Worker } from 'worker_threads';
+import { PassThrough } from 'stream';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import * as net from 'net';
+import * as path from 'path';
+import { nanoid } from 'nanoid/non-secure';
+import { SuperRPC } from '../super-rpc';
+import {
+    ClosableRPCChannel, createBroadcastChannel, createMessagePortChannel, createStreamChannel, createWebSocketChannel,
+    createWindowChannel, createWorkerChannel, MessageEndpoint, StreamChannelOptions
+} from '../rpc-channels';
+import { RPCChannelClosedError } from '../rpc-errors';
+import type { RPC_Message } from '../rpc-message-types';
+import { tsBootstrap } from './utils';
+
+jest.setTimeout(30000);
+
+// not in the typings of this Node.js version
+const { BroadcastChannel } = workerThreads as any;
+
+const service = { add: (a: number, b: number) => a + b, neverReturns: () => new Promise(() => undefined) };
+const serviceDescriptor = { functions: ['add', 'neverReturns', { name: 'syncAdd', returns: 'sync' as const }] };
+
+describe('MessagePort', () => {
+    let port1: MessagePort;
+    let port2: MessagePort;
+    let channel1: ClosableRPCChannel;
+    let channel2: ClosableRPCChannel;
+    let rpc1: SuperRPC;
+    let rpc2: SuperRPC;
+
+    beforeEach(() => {
+        ({ port1, port2 } = new MessageChannel());
+        channel1 = createMessagePortChannel(port1);
+        channel2 = createMessagePortChannel(port2);
+
+        rpc1 = new SuperRPC(nanoid);
+        rpc2 = new SuperRPC(nanoid);
+        rpc1.connect(channel1);
+        rpc2.connect(channel2);
+
+        rpc1.registerHostObject('service', { ...service, syncAdd: service.add }, serviceDescriptor);
+    });
+
+    afterEach(() => {
+        channel1.close();
+        channel2.close();
+    });
+
+    test('calls', async () => {
+        await rpc2.requestRemoteDescriptors();
+        const proxy = rpc2.getProxyObject('service');
+        expect(await proxy.add(1, 2)).toBe(3);
+        // there are no sync messages, sync functions are called asynchronously
+        expect(await proxy.syncAdd(2, 3)).toBe(5);
+    });
+
+    test('callbacks', async () => {
+        rpc2.registerHostFunction('double', (value: number) => value * 2, {});
+        rpc2.sendRemoteDescriptors();
+        await new Promise(resolve => rpc1.on('remoteDescriptorsChange', resolve));
+        expect(await rpc1.getProxyObject('double')(21)).toBe(42);
+    });
+
+    test('closing the port at the other end', async () => {
+        await rpc2.requestRemoteDescriptors();
+        const disconnect = jest.fn();
+        rpc2.on('disconnect', disconnect);
+
+        const pending = rpc2.getProxyObject('service').neverReturns();
+        channel1.close();
+
+        await expect(pending).rejects.toThrowError(RPCChannelClosedError);
+        expect(disconnect).toHaveBeenCalledWith('The port has been closed');
+    });
+
+    test('nothing is sent after closing', () => {
+        const postMessage = jest.spyOn(port2, 'postMessage');
+        channel2.close('done');
+        channel2.sendAsync?.({ action: 'get_descriptors' });
+        expect(postMessage).not.toHaveBeenCalled();
+    });
+});
+
+describe('Worker', () => {
+    let worker: Worker;
+    let channel: ClosableRPCChannel;
+    let rpc: SuperRPC;
+
+    beforeEach(() => {
+        worker = new Worker(tsBootstrap, { eval: true, workerData: path.join(__dirname, 'fixtures/rpc-worker.ts') });
+        channel = createWorkerChannel(worker);
+        rpc = new SuperRPC(nanoid);
+        rpc.connect(channel);
+    });
+
+    afterEach(() => channel.close());
+
+    test('calls into a worker_threads Worker', async () => {
+        // the messages are queued until the worker starts listening
+        await rpc.requestRemoteDescriptors();
+        const workerService = rpc.getProxyObject('workerService');
+        expect(await workerService.add(1, 2)).toBe(3);
+        expect(await workerService.callBack((value: number) => value * 2)).toBe(42);
+    });
+
+    test('the worker exiting closes the channel', async () => {
+        await rpc.requestRemoteDescriptors();
+        const disconnected = new Promise(resolve => rpc.on('disconnect', resolve));
+        rpc.getProxyObject('workerService').exit();
+        expect(await disconnected).toBe('The worker has exited');
+    });
+
+    test('closing the channel terminates the worker', async () => {
+        const exited = new Promise(resolve => worker.once('exit', resolve));
+        channel.close();
+        await expect(exited).resolves.toBeDefined();
+    });
+});
+
+describe('window.postMessage', () => {
+    type Listener = (event: any) => void;
+
+    // a window as its own page sees it: it receives the messages sent to it
+    const createReceiver = () => {
+        const listeners = new Set<Listener>();
+        return {
+            postMessage: () => undefined,
+            addEventListener: (type: string, listener: Listener) => listeners.add(listener),
+            removeEventListener: (type: string, listener: Listener) => listeners.delete(listener),
+            dispatch: (event: any) => setTimeout(() => listeners.forEach(listener => listener(event)))
+        };
+    };
+
+    // a reference to another window, `postMessage` delivers to it only if it has the target origin
+    const createWindowRef = (receiver: ReturnType<typeof createReceiver>, receiverOrigin: string, senderOrigin: string, source: () => unknown) => ({
+        postMessage: (message: RPC_Message, targetOrigin: string) => {
+            if (targetOrigin !== '*' && targetOrigin !== receiverOrigin) return;
+            receiver.dispatch({ data: JSON.parse(JSON.stringify(message)), origin: senderOrigin, source: source() });
+        }
+    });
+
+    const receiverA = createReceiver();
+    const receiverB = createReceiver();
+    // A's reference to B and B's reference to A
+    const windowB = createWindowRef(receiverB, 'https://b.example', 'https://a.example', () => windowA);
+    const windowA: ReturnType<typeof createWindowRef> = createWindowRef(receiverA, 'https://a.example', 'https://b.example', () => windowB);
+
+    let channelA: ClosableRPCChannel;
+    let channelB: ClosableRPCChannel;
+    let rpcA: SuperRPC;
+    let rpcB: SuperRPC;
+
+    beforeEach(() => {
+        channelA = createWindowChannel(windowB, 'https://b.example', receiverA);
+        channelB = createWindowChannel(windowA, 'https://a.example', receiverB);
+        rpcA = new SuperRPC(nanoid);
+        rpcB = new SuperRPC(nanoid);
+        rpcA.connect(channelA);
+        rpcB.connect(channelB);
+
+        rpcA.registerHostObject('service', { ...service, syncAdd: service.add }, serviceDescriptor);
+    });
+
+    afterEach(() => {
+        channelA.close();
+        channelB.close();
+    });
+
+    test('calls', async () => {
+        await rpcB.requestRemoteDescriptors();
+        expect(await rpcB.getProxyObject('service').add(1, 2)).toBe(3);
+    });
+
+    test('messages from other origins and windows are ignored', async () => {
+        const messages: RPC_Message[] = [];
+        rpcA.on('message', message => messages.push(message));
+
+        const message = { rpc_marker: 'srpc', action: 'get_descriptors' };
+        receiverA.dispatch({ data: message, origin: 'https://evil.example', source: windowB });
+        receiverA.dispatch({ data: message, origin: 'https://b.example', source: {} });
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(messages).toHaveLength(0);
+    });
+
+    test('messages are only sent to the target origin', async () => {
+        const channel = createWindowChannel(windowB, 'https://evil.example', receiverA);
+        const rpc = new SuperRPC(nanoid);
+        rpc.connect(channel);
+
+        const received = jest.fn();
+        rpcB.on('message', received);
+        rpc.sendRemoteDescriptors();
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(received).not.toHaveBeenCalled();
+        channel.close();
+    });
+
+    test('closing stops listening', async () => {
+        channelA.close();
+        const messages: RPC_Message[] = [];
+        rpcA.on('message', message => messages.push(message));
+
+        rpcB.sendRemoteDescriptors();
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(messages).toHaveLength(0);
+    });
+});
+
+describe('BroadcastChannel', () => {
+    const participants: { channel: ClosableRPCChannel, rpc: SuperRPC, inbound: RPC_Message[] }[] = [];
+
+    const join = (peerId: string) => {
+        const channel = createBroadcastChannel(<MessageEndpoint>new BroadcastChannel('rpc-test'), peerId);
+        const rpc = new SuperRPC(nanoid);
+        rpc.connect(channel);
+        const participant = { channel, rpc, inbound: <RPC_Message[]>[] };
+        rpc.on('message', (message, direction) => direction === 'inbound' && participant.inbound.push(message));
+        participants.push(participant);
+        return participant;
+    };
+
+    afterEach(() => {
+        participants.splice(0).forEach(({ channel }) => channel.close());
+    });
+
+    test('the other participants are peers, replies only go to the sender', async () => {
+        const one = join('one');
+        const two = join('two');
+        const three = join('three');
+
+        one.rpc.registerHostObject('service', service, serviceDescriptor);
+        const descriptorsReceived = [two, three].map(({ rpc }) => new Promise(resolve => rpc.on('remoteDescriptorsChange', resolve)));
+        // sent to everyone
+        one.rpc.sendRemoteDescriptors();
+        expect(await Promise.all(descriptorsReceived)).toHaveLength(2);
+
+        expect(two.rpc.hasPeer('one')).toBe(true);
+        expect(await two.rpc.getProxyObject('service', 'one').add(1, 2)).toBe(3);
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(three.inbound.map(message => message.action)).toEqual(['descriptors']);
+        expect(one.inbound.map(message => message.action)).toEqual(['method_call']);
+    });
+
+    test('requests need a peer', async () => {
+        const one = join('one');
+        await expect(one.rpc.requestRemoteDescriptors()).rejects.toThrowError(/send it to a peer/);
+    });
+
+    test('closing', async () => {
+        const one = join('one');
+        const two = join('two');
+        two.rpc.registerHostObject('service', service, serviceDescriptor);
+        two.rpc.sendRemoteDescriptors();
+        await new Promise(resolve => one.rpc.on('remoteDescriptorsChange', resolve));
+        const pending = one.rpc.getProxyObject('service', 'two').neverReturns();
+
+        const disconnect = jest.fn();
+        const peerDisconnected = new Promise(resolve => one.rpc.on('peerDisconnect', (...args) => resolve(args)));
+        two.rpc.on('disconnect', disconnect);
+        two.channel.close('leaving');
+        expect(disconnect).toHaveBeenCalledWith('leaving');
+
+        // the others are told
+        expect(await peerDisconnected).toEqual(['two', 'The participant has left']);
+        await expect(pending).rejects.toThrowError(RPCChannelClosedError);
+        expect(one.rpc.hasPeer('two')).toBe(false);
+    });
+});
+
+describe('streams', () => {
+    const message: RPC_Message = { rpc_marker: 'srpc', action: 'prop_changed', objId: 'obj', prop: 'text', value: 'line\nárvíztűrő 🚀' };
+    const frames = {
+        newline: (msg: RPC_Message) => Buffer.from(JSON.stringify(msg) + '\n'),
+        length: (msg: RPC_Message) => {
+            const json = Buffer.from(JSON.stringify(msg));
+            const prefix = Buffer.alloc(4);
+            prefix.writeUInt32BE(json.length);
+            return Buffer.concat([prefix, json]);
+        }
+    };
+    const channels: ClosableRPCChannel[] = [];
+
+    const connect = (options?: StreamChannelOptions) => {
+        const toRpc1 = new PassThrough();
+        const toRpc2 = new PassThrough();
+        channels.push(createStreamChannel(toRpc1, toRpc2, options), createStreamChannel(toRpc2, toRpc1, options));
+        const [rpc1, rpc2] = [new SuperRPC(nanoid), new SuperRPC(nanoid)];
+        rpc1.connect(channels[channels.length - 2]);
+        rpc2.connect(channels[channels.length - 1]);
+        rpc1.registerHostObject('service', { ...service, syncAdd: service.add, echo: (value: unknown) => value }, {
+            functions: [...serviceDescriptor.functions, 'echo']
+        });
+        return { rpc1, rpc2, toRpc1, toRpc2 };
+    };
+
+    const receiveFrom = (input: PassThrough, options?: StreamChannelOptions) => {
+        const channel = createStreamChannel(input, new PassThrough(), options);
+        channels.push(channel);
+        const received = jest.fn();
+        const closed = jest.fn();
+        channel.receive?.(received);
+        channel.onClose?.(closed);
+        return { received, closed };
+    };
+
+    afterEach(() => {
+        channels.splice(0).forEach(channel => channel.close());
+    });
+
+    test.each(['newline', 'length'] as const)('%s framing', async framing => {
+        const { rpc2 } = connect({ framing });
+        await rpc2.requestRemoteDescriptors();
+        const proxy = rpc2.getProxyObject('service');
+        expect(await proxy.add(1, 2)).toBe(3);
+        expect(await proxy.echo('line\nárvíztűrő 🚀')).toBe('line\nárvíztűrő 🚀');
+    });
+
+    test.each(['newline', 'length'] as const)('%s frames split into chunks', async framing => {
+        const input = new PassThrough();
+        const { received } = receiveFrom(input, { framing });
+
+        // byte by byte, also splitting the multi-byte characters
+        const bytes = Buffer.concat([frames[framing](message), frames[framing](message)]);
+        for (let idx = 0; idx < bytes.length; idx++) input.write(bytes.subarray(idx, idx + 1));
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(received).toHaveBeenCalledTimes(2);
+        expect(received).toHaveBeenCalledWith(message);
+    });
+
+    test('lines that are not JSON are ignored', async () => {
+        const input = new PassThrough();
+        const { received } = receiveFrom(input);
+        input.write('Debugger listening...\n');
+        input.write(frames.newline(message));
+        await new Promise(resolve => setImmediate(resolve));
+        expect(received.mock.calls).toEqual([[message]]);
+    });
+
+    test('buffering', async () => {
+        const { rpc2, toRpc1 } = connect({ buffer: true });
+        await rpc2.requestRemoteDescriptors();
+        const write = jest.spyOn(toRpc1, 'write');
+
+        const proxy = rpc2.getProxyObject('service');
+        const results = await Promise.all([proxy.add(1, 2), proxy.add(3, 4), proxy.add(5, 6)]);
+        expect(results).toEqual([3, 7, 11]);
+        // the calls are written in one chunk
+        expect(write).toHaveBeenCalledTimes(1);
+    });
+
+    test.each(['newline', 'length'] as const)('%s framing, message too large', async framing => {
+        const input = new PassThrough();
+        const { received, closed } = receiveFrom(input, { framing, maxMessageSize: 10 });
+        input.write(frames[framing](message));
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(received).not.toHaveBeenCalled();
+        expect(closed.mock.calls[0][0].message).toMatch(/larger than 10/);
+    });
+
+    test('errors of processing a message do not close the channel', () => {
+        const reported: VoidFunction[] = [];
+        const queueMicrotask = jest.spyOn(global, 'queueMicrotask').mockImplementation(callback => reported.push(callback));
+        const input = new PassThrough();
+        const channel = createStreamChannel(input, new PassThrough());
+        channels.push(channel);
+        const closed = jest.fn();
+        channel.onClose?.(closed);
+        const received = jest.fn()
+            .mockImplementationOnce(() => { throw new Error('listener bug'); });
+        channel.receive?.(received);
+
+        // two messages in one chunk, and one more after
+        input.write(Buffer.concat([frames.newline(message), frames.newline(message)]));
+        input.write(frames.newline(message));
+        queueMicrotask.mockRestore();
+
+        expect(received).toHaveBeenCalledTimes(3);
+        expect(reported).toHaveLength(1);
+        expect(reported[0]).toThrowError('listener bug');
+        expect(closed).not.toHaveBeenCalled();
+    });
+
+    test('the input ending closes the channel', async () => {
+        const { rpc1, toRpc1 } = connect();
+        const disconnected = new Promise(resolve => rpc1.on('disconnect', resolve));
+        toRpc1.end();
+        expect(await disconnected).toBe('The stream has ended');
+    });
+
+    test('TCP socket', async () => {
+        const serverRpc = new SuperRPC(nanoid);
+        serverRpc.registerHostObject('service', service, serviceDescriptor);
+        const server = net.createServer(socket => serverRpc.connect(createStreamChannel(socket, socket, { framing: 'length' })));
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+        const socket = net.connect((server.address() as net.AddressInfo).port, '127.0.0.1');
+        const channel = createStreamChannel(socket, socket, { framing: 'length' });
+        const rpc = new SuperRPC(nanoid);
+        rpc.connect(channel);
+
+        await rpc.requestRemoteDescriptors();
+        expect(await rpc.getProxyObject('service').add(1, 2)).toBe(3);
+
+        const serverDisconnected = new Promise(resolve => serverRpc.on('disconnect', resolve));
+        channel.close();
+        await serverDisconnected;
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    test('stdio of a child process', async () => {
+        const child = spawn(process.execPath, ['-e', tsBootstrap, path.join(__dirname, 'fixtures/rpc-stdio-child.ts')], {
+            stdio: ['pipe', 'pipe', 'inherit']
+        });
+        const channel = createStreamChannel(child.stdout, child.stdin);
+        const rpc = new SuperRPC(nanoid);
+        rpc.connect(channel);
+
+        await rpc.requestRemoteDescriptors();
+        const childService = rpc.getProxyObject('childService');
+        expect(await childService.add(1, 2)).toBe(3);
+        expect(await childService.getPid()).toBe(child.pid);
+
+        // the child exits when its stdin ends
+        const exited = new Promise(resolve => child.once('exit', resolve));
+        channel.close();
+        expect(await exited).toBe(0);
+    });
+});
+
+describe('WebSocket', () => {
+    // behaves like a socket of the `ws` package, the two ends are connected in memory
+    class FakeWebSocket extends EventEmitter {
+        readyState = 0;
+        peer?: FakeWebSocket;
+
+        send(data: string) {
+            if (this.readyState !== 1) throw new Error('WebSocket is not open');
+            setImmediate(() => this.peer?.emit('message', Buffer.from(data), false));
+        }
+
+        open() {
+            this.readyState = 1;
+            this.emit('open');
+        }
+
+        close() {
+            for (const socket of [this, this.peer]) {
+                if (!socket || socket.readyState === 3) continue;
+                socket.readyState = 3;
+                socket.emit('close', 1000);
+            }
+        }
+    }
+
+    let socket1: FakeWebSocket;
+    let socket2: FakeWebSocket;
+    let channel1: ClosableRPCChannel;
+    let channel2: ClosableRPCChannel;
+    let rpc1: SuperRPC;
+    let rpc2: SuperRPC;
+
+    beforeEach(() => {
+        socket1 = new FakeWebSocket();
+        socket2 = new FakeWebSocket();
+        socket1.peer = socket2;
+        socket2.peer = socket1;
+
+        channel1 = createWebSocketChannel(socket1);
+        channel2 = createWebSocketChannel(socket2);
+        rpc1 = new SuperRPC(nanoid);
+        rpc2 = new SuperRPC(nanoid);
+        rpc1.connect(channel1);
+        rpc2.connect(channel2);
+        rpc1.registerHostObject('service', service, serviceDescriptor);
+    });
+
+    afterEach(() => {
+        channel1.close();
+        channel2.close();
+    });
+
+    test('the messages sent while connecting are sent when the socket opens', async () => {
+        const descriptors = rpc2.requestRemoteDescriptors();
+        socket1.open();
+        socket2.open();
+        await descriptors;
+        expect(await rpc2.getProxyObject('service').add(1, 2)).toBe(3);
+    });
+
+    test('errors of processing a message do not escape to the socket', () => {
+        const reported: VoidFunction[] = [];
+        const queueMicrotask = jest.spyOn(global, 'queueMicrotask').mockImplementation(callback => reported.push(callback));
+        const channel = createWebSocketChannel(socket1);
+        channel.receive?.(() => { throw new Error('listener bug'); });
+
+        expect(() => socket1.emit('message', Buffer.from(JSON.stringify({ rpc_marker: 'srpc', action: 'get_descriptors' })))).not.toThrow();
+        queueMicrotask.mockRestore();
+        expect(reported).toHaveLength(1);
+        expect(reported[0]).toThrowError('listener bug');
+    });
+
+    test('the socket closing closes the channel', async () => {
+        socket1.open();
+        socket2.open();
+        await rpc2.requestRemoteDescriptors();
+
+        const disconnect = jest.fn();
+        rpc2.on('disconnect', disconnect);
+        const pending = rpc2.getProxyObject('service').neverReturns();
+        channel1.close();
+
+        await expect(pending).rejects.toThrowError(RPCChannelClosedError);
+        expect(disconnect).toHaveBeenCalledWith('The socket has been closed');
+    });
+});
@@ -0,0 +1,37 @@
+import { builtinValueTypes } from '../rpc-codec';
+
+describe('builtinValueTypes', () => {
+    const identity = (value: unknown) => value;
+    const roundTrip = (typeName: string, value: unknown) => {
+        const type = builtinValueTypes[typeName];
+        expect(type.test(value)).toBe(true);
+        return type.deserialize(JSON.parse(JSON.stringify(type.serialize(value, identity))), identity);
+    };
+
+    test('binary data of any length', () => {
+        for (let length = 0; length < 8; length++) {
+            const bytes = Uint8Array.from({ length }, (_, idx) => 250 + idx);
+            expect(roundTrip('TypedArray', bytes)).toEqual(bytes);
+        }
+    });
+
+    test('typed array views', () => {
+        const ints = new Int32Array([1, -2, 3, 4]);
+        const view = roundTrip('TypedArray', ints.subarray(1, 3));
+        expect(view).toBeInstanceOf(Int32Array);
+        expect(view).toEqual(new Int32Array([-2, 3]));
+
+        expect(builtinValueTypes.TypedArray.test(new DataView(ints.buffer))).toBe(false);
+    });
+
+    test('collections', () => {
+        expect(roundTrip('Map', new Map([[1, 'one']]))).toEqual(new Map([[1, 'one']]));
+        expect(roundTrip('Set', new Set(['a', 'b']))).toEqual(new Set(['a', 'b']));
+    });
+
+    test('scalars', () => {
+        expect(roundTrip('BigInt', -(2n ** 70n))).toBe(-(2n ** 70n));
+        expect(roundTrip('RegExp', /x\/y/m)).toEqual(/x\/y/m);
+        expect(roundTrip('Date', new Date(42))).toEqual(new Date(42));
+    });
+});
@@ -0,0 +1,44 @@
+import { MetricsCollector } from '../rpc-metrics';
+
+describe('MetricsCollector', () => {
+    const gauges = { pendingAsyncCalls: 0, hostObjects: 0, proxyObjects: 0 };
+
+    test('latency histogram', () => {
+        const collector = new MetricsCollector({ latencyBuckets: [10, 1] });
+        for (const duration of [0, 1, 5, 10, 50]) {
+            collector.recordCall({ kind: 'client', action: 'fn_call', callType: 'async', objId: 'f' }, duration, true);
+        }
+
+        const { latency, calls } = collector.snapshot(gauges);
+        expect(latency.async).toEqual({ bounds: [1, 10], buckets: [2, 2, 1], count: 5, sum: 66, min: 0, max: 50 });
+        expect(latency.sync.count).toBe(0);
+        expect(calls.outgoing.f.latency).toEqual(latency.async);
+    });
+
+    test('void calls are not in the latency histograms', () => {
+        const collector = new MetricsCollector();
+        collector.recordCall({ kind: 'client', action: 'method_call', callType: 'void', objId: 'o', prop: 'p' }, 1, true);
+
+        const { latency, calls } = collector.snapshot(gauges);
+        expect(latency.sync.count + latency.async.count).toBe(0);
+        expect(calls.outgoing['o.p'].count).toBe(1);
+    });
+
+    test('message sizes', () => {
+        const collector = new MetricsCollector();
+        collector.recordMessage('sent', { action: 'obj_died', objId: 'é' });
+        collector.recordMessage('received', <any>'not a message');
+
+        const { messages, objDied } = collector.snapshot(gauges);
+        expect(messages.sent).toEqual({ count: 1, bytes: JSON.stringify({ action: 'obj_died', objId: 'é' }).length + 1, actions: { obj_died: 1 } });
+        expect(messages.received).toEqual({ count: 1, bytes: 15, actions: {} });
+        expect(objDied).toEqual({ sent: 1, received: 0 });
+    });
+
+    test('snapshots are copies', () => {
+        const collector = new MetricsCollector();
+        const snapshot = collector.snapshot(gauges);
+        collector.recordMessage('sent', { action: 'get_descriptors' });
+        expect(snapshot.messages.sent.count).toBe(0);
+    });
+});
@@ -0,0 +1,52 @@
+import { validateArguments, validateValue } from '../rpc-validation';
+
+describe('validation', () => {
+    test('primitive types', () => {
+        expect(validateValue('a', 'string')).toEqual([]);
+        expect(validateValue(1, 'number')).toEqual([]);
+        expect(validateValue(null, 'null')).toEqual([]);
+        expect(validateValue([], 'array')).toEqual([]);
+        expect(validateValue(() => 1, 'function')).toEqual([]);
+        expect(validateValue({}, 'any')).toEqual([]);
+
+        expect(validateValue([], 'object')).toEqual([{ path: 'value', message: 'expected object, got array' }]);
+        expect(validateValue(null, 'object')).toEqual([{ path: 'value', message: 'expected object, got null' }]);
+    });
+
+    test('optional and nullable', () => {
+        expect(validateValue(undefined, { type: 'string', optional: true })).toEqual([]);
+        expect(validateValue(null, { type: 'string', nullable: true })).toEqual([]);
+        expect(validateValue(undefined, { type: 'string', nullable: true })).toHaveLength(1);
+    });
+
+    test('enum', () => {
+        expect(validateValue('a', { enum: ['a', 'b'] })).toEqual([]);
+        expect(validateValue('c', { enum: ['a', 'b'] })).toEqual([{ path: 'value', message: 'expected one of "a", "b"' }]);
+    });
+
+    test('object shape', () => {
+        const schema = { type: 'object', properties: { x: 'number', nested: { type: 'object', properties: { y: 'string' } } } } as const;
+        expect(validateValue({ x: 1, nested: { y: 'a' }, other: true }, schema)).toEqual([]);
+        expect(validateValue({ nested: { y: 1 } }, schema)).toEqual([
+            { path: 'value.x', message: 'expected number, got undefined' },
+            { path: 'value.nested.y', message: 'expected string, got number' }
+        ]);
+        expect(validateValue({ x: 1, nested: { y: 'a' }, other: true }, { ...schema, additionalProperties: false }))
+            .toEqual([{ path: 'value.other', message: 'unexpected property' }]);
+    });
+
+    test('array elements', () => {
+        expect(validateValue([1, 2], { type: 'array', items: 'number' })).toEqual([]);
+        expect(validateValue([1, 'a'], { type: 'array', items: 'number' }, 'list'))
+            .toEqual([{ path: 'list[1]', message: 'expected number, got string' }]);
+    });
+
+    test('arguments', () => {
+        const func = { arguments: [{ idx: 1, schema: 'string' as const }, { idx: 2, type: 'function' as const }] };
+        expect(validateArguments(func, [1, 'a'])).toEqual([]);
+        expect(validateArguments(func, [1])).toEqual([{ path: 'args[1]', message: 'expected string, got undefined' }]);
+        expect(validateArguments({}, [1])).toEqual([]);
+        expect(validateArguments({ arguments: [{ schema: 'number' }] }, [1, 'a']))
+            .toEqual([{ path: 'args[1]', message: 'expected number, got string' }]);
+    });
+});
@@ -1,8 +1,14 @@
-import { AnyConstructor, RPCChannel, SuperRPC } from '../super-rpc';
+import { AnyConstructor, CallContext, callOptions, RPCChannel, SuperRPC } from '../super-rpc';
 import { RPC_Message } from '../rpc-message-types';
 import { nanoid } from 'nanoid/non-secure';
-import { waitForAllTimers } from './utils';
+import { EventEmitter } from 'events';
+import { delayPromise, waitForAllTimers } from './utils';
 import { rpc_disposeFunc } from '../proxy-object-registry';
+import { Span } from '../rpc-tracing';
+import {
+    RPCAbortError, RPCAccessError, RPCAuthorizationError, RPCChannelClosedError, RPCProtocolError, RPCRevokedError, RPCTimeoutError, RPCValidationError
+} from '../rpc-errors';
+import { HandshakeFeatures, HandshakeInfo, libraryVersion, protocolVersion } from '../rpc-handshake';
 
 describe('SuperRPC', () => {
     let channel1: RPCChannel;
@@ -174,18 +180,19 @@ describe('SuperRPC', () => {
 
         test('passing a function (listener)', async () => {
             const listener = jest.fn();
-            const data = {};
-            const data2 = {};
+            const data = { id: 1 };
+            const data2 = { id: 2 };
 
             await proxyObj.addListener(listener);
 
+            // the data is copied, even through the in-memory mock channel
             await proxyObj.fireListeners(data);
             expect(listener.mock.calls.length).toBe(1);
-            expect(listener.mock.calls[0][0]).toBe(data);
+            expect(listener.mock.calls[0][0]).toEqual(data);
 
             await proxyObj.fireListeners(data2);
             expect(listener.mock.calls.length).toBe(2);
-            expect(listener.mock.calls[1][0]).toBe(data2);
+            expect(listener.mock.calls[1][0]).toEqual(data2);
 
             await proxyObj.removeListener(listener);
             await proxyObj.fireListeners(data2);
@@ -529,7 +536,2074 @@ describe('SuperRPC', () => {
             rpc1.sendRemoteDescriptors();
 
             const proxyFunc = rpc2.getProxyObject('ferr');
-            await expect(proxyFunc()).rejects.toMatch('error');
+            await expect(proxyFunc()).rejects.toThrowError('error');
+        });
+
+        test('the result can not be deserialized', async () => {
+            class Unreadable {}
+            rpc1.registerValueType('Unreadable', { test: (value) => value instanceof Unreadable, serialize: () => 0, deserialize: () => new Unreadable() });
+            rpc2.registerValueType('Unreadable', { test: () => false, serialize: () => 0, deserialize: () => { throw new Error('can not deserialize'); } });
+            rpc1.registerHostFunction('fasync', async () => new Unreadable(), { returns: 'async' });
+            rpc1.sendRemoteDescriptors();
+
+            await expect(rpc2.getProxyObject('fasync')()).rejects.toThrowError('can not deserialize');
+            expect((rpc2 as any).asyncCallbacks.size).toBe(0);
+        });
+
+        test('the result can not be serialized', async () => {
+            class Unsendable {}
+            rpc1.registerValueType('Unsendable', {
+                test: (value) => value instanceof Unsendable,
+                serialize: () => { throw new Error('can not serialize'); },
+                deserialize: () => new Unsendable()
+            });
+            rpc1.registerHostFunction('fasync', async () => new Unsendable(), { returns: 'async' });
+            rpc1.registerHostFunction('fpromise', () => Promise.resolve(new Unsendable()), { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+
+            await expect(rpc2.getProxyObject('fasync')()).rejects.toThrowError('can not serialize');
+            await expect(rpc2.getProxyObject('fpromise')()).rejects.toThrowError('can not serialize');
+        });
+    });
+
+    describe('error transport', () => {
+        class MyDomainError extends Error {
+            constructor(message: string, public code: string) {
+                super(message);
+                this.name = 'MyDomainError';
+            }
+        }
+
+        beforeEach(() => {
+            rpc1.registerErrorClass(MyDomainError);
+            rpc2.registerErrorClass(MyDomainError);
+
+            rpc1.registerHostObject('err_obj', {
+                throwDomain() { throw new MyDomainError('domain failure', 'E_DOMAIN'); },
+                throwWithCause() { throw Object.assign(new Error('outer'), { cause: new TypeError('inner') }); },
+                rejectDomain() { return Promise.reject(new MyDomainError('async failure', 'E_ASYNC')); },
+                throwUnknown() {
+                    const err = new Error('unknown');
+                    err.name = 'UnknownError';
+                    throw err;
+                }
+            }, {
+                functions: [
+                    { name: 'throwDomain', returns: 'sync' },
+                    { name: 'throwWithCause', returns: 'sync' },
+                    'rejectDomain',
+                    { name: 'throwUnknown', returns: 'sync' }
+                ]
+            });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('custom error class (sync)', () => {
+            expect.assertions(4);
+            try {
+                rpc2.getProxyObject('err_obj').throwDomain();
+            } catch (err: any) {
+                expect(err).toBeInstanceOf(MyDomainError);
+                expect(err.name).toBe('MyDomainError');
+                expect(err.message).toBe('domain failure');
+                expect(err.code).toBe('E_DOMAIN');
+            }
+        });
+
+        test('custom error class (async)', async () => {
+            const promise = rpc2.getProxyObject('err_obj').rejectDomain();
+            await expect(promise).rejects.toBeInstanceOf(MyDomainError);
+            await expect(promise).rejects.toMatchObject({ code: 'E_ASYNC', message: 'async failure' });
+        });
+
+        test('cause', () => {
+            expect.assertions(3);
+            try {
+                rpc2.getProxyObject('err_obj').throwWithCause();
+            } catch (err: any) {
+                expect(err.message).toBe('outer');
+                expect(err.cause).toBeInstanceOf(TypeError);
+                expect(err.cause.message).toBe('inner');
+            }
+        });
+
+        test('unregistered error class keeps its name', () => {
+            expect.assertions(3);
+            try {
+                rpc2.getProxyObject('err_obj').throwUnknown();
+            } catch (err: any) {
+                expect(err).toBeInstanceOf(Error);
+                expect(err.name).toBe('UnknownError');
+                expect(err.message).toBe('unknown');
+            }
+        });
+
+        test('stack is sent if enabled', () => {
+            rpc1 = new SuperRPC(nanoid, { sendErrorStack: true });
+            rpc1.connect(channel1);
+            rpc1.registerHostFunction('ferr', () => { throw new Error('with stack'); }, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+
+            expect.assertions(1);
+            try {
+                rpc2.getProxyObject('ferr')();
+            } catch (err: any) {
+                expect(err.stack).toContain('super-rpc.test.ts');
+            }
+        });
+    });
+
+    describe('validation', () => {
+        let hostCalls: any[];
+
+        beforeEach(() => {
+            hostCalls = [];
+            rpc1.registerHostObject('validated_obj', {
+                resize: (size: any, unit: string) => hostCalls.push([size, unit]),
+                getSize: (valid: boolean) => valid ? { width: 1 } : { width: 'wide' },
+                count: 0
+            }, {
+                functions: [
+                    {
+                        name: 'resize', returns: 'sync',
+                        arguments: [
+                            { idx: 0, schema: { type: 'object', properties: { width: 'number', height: { type: 'number', optional: true } }, additionalProperties: false } },
+                            { idx: 1, schema: { type: 'string', enum: ['px', 'em'] } }
+                        ]
+                    },
+                    { name: 'getSize', resultSchema: { type: 'object', properties: { width: 'number' } } }
+                ],
+                proxiedProperties: [{ name: 'count', schema: 'number' }]
+            });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('valid arguments', () => {
+            rpc2.getProxyObject('validated_obj').resize({ width: 10, height: 20 }, 'px');
+            expect(hostCalls).toEqual([[{ width: 10, height: 20 }, 'px']]);
+        });
+
+        test('invalid arguments are rejected on the host side', () => {
+            expect.assertions(4);
+            try {
+                rpc2.getProxyObject('validated_obj').resize({ width: '10', preload: 'evil.js' }, 'pt');
+            } catch (err: any) {
+                expect(err).toBeInstanceOf(RPCValidationError);
+                expect(err.prop).toBe('resize');
+                expect(err.issues).toEqual([
+                    { path: 'args[0].width', message: 'expected number, got string' },
+                    { path: 'args[0].preload', message: 'unexpected property' },
+                    { path: 'args[1]', message: 'expected one of "px", "em"' }
+                ]);
+            }
+            expect(hostCalls).toEqual([]);
+        });
+
+        test('missing arguments', () => {
+            expect(() => rpc2.getProxyObject('validated_obj').resize()).toThrowError(RPCValidationError);
+        });
+
+        test('invalid result', async () => {
+            const proxyObj = rpc2.getProxyObject('validated_obj');
+            expect(await proxyObj.getSize(true)).toEqual({ width: 1 });
+            await expect(proxyObj.getSize(false)).rejects.toThrowError(RPCValidationError);
+        });
+
+        test('invalid property value', () => {
+            const proxyObj = rpc2.getProxyObject('validated_obj');
+            proxyObj.count = 1;
+            expect(() => proxyObj.count = 'one').toThrowError(RPCValidationError);
+            expect(proxyObj.count).toBe(1);
+        });
+
+        test('client side pre-validation', () => {
+            rpc2 = new SuperRPC(nanoid, { validateArguments: true });
+            rpc2.connect(channel2);
+            rpc1.sendRemoteDescriptors();
+
+            const sendSync = jest.spyOn(channel2, 'sendSync');
+            expect(() => rpc2.getProxyObject('validated_obj').resize({ width: 1 }, 'pt')).toThrowError(RPCValidationError);
+            expect(sendSync).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('strict mode', () => {
+        let hostObj: any;
+
+        beforeEach(() => {
+            rpc1 = new SuperRPC(nanoid, { strict: true });
+            rpc1.connect(channel1);
+
+            hostObj = {
+                id: 1,
+                title: 'title',
+                state: 'normal',
+                secret: 'secret',
+                getTitle() { return this.title; },
+                destroy() { this.destroyed = true; }
+            };
+            rpc1.registerHostObject('strict_obj', hostObj, {
+                functions: [{ name: 'getTitle', returns: 'sync' }],
+                proxiedProperties: ['title', { name: 'state', readonly: true }],
+                readonlyProperties: ['id']
+            });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        // sends a call with a forged member name, the way a compromised client could
+        function call(action: 'prop_get' | 'prop_set' | 'method_call', prop: string, args: any[] = []) {
+            const response: any = channel2.sendSync?.({ rpc_marker: 'srpc', action, callType: 'sync', objId: 'strict_obj', prop, args });
+            return (rpc2 as any).processAfterSerialization(response.result, channel2);
+        }
+
+        test('exposed members work', () => {
+            const proxyObj = rpc2.getProxyObject('strict_obj');
+            expect(proxyObj.getTitle()).toBe('title');
+            proxyObj.title = 'new title';
+            expect(proxyObj.title).toBe('new title');
+            expect(proxyObj.state).toBe('normal');
+            expect(call('prop_get', 'id')).toBe(1);
+        });
+
+        test('members not in the descriptor are rejected', () => {
+            expect(call('prop_get', 'secret')).toBeInstanceOf(RPCAccessError);
+            expect(call('prop_set', 'secret', ['changed'])).toBeInstanceOf(RPCAccessError);
+            expect(call('method_call', 'destroy')).toBeInstanceOf(RPCAccessError);
+            expect(hostObj.secret).toBe('secret');
+            expect(hostObj.destroyed).toBeUndefined();
+        });
+
+        test('readonly properties can not be set', () => {
+            expect(call('prop_set', 'state', ['maximized'])).toBeInstanceOf(RPCAccessError);
+            expect(call('prop_set', 'id', [2])).toBeInstanceOf(RPCAccessError);
+            expect(hostObj.state).toBe('normal');
+            expect(hostObj.id).toBe(1);
+        });
+
+        test('__proto__ and constructor are blocked', () => {
+            expect(call('prop_get', '__proto__')).toBeInstanceOf(RPCAccessError);
+            expect(call('prop_set', '__proto__', [{ polluted: true }])).toBeInstanceOf(RPCAccessError);
+            expect(call('prop_get', 'constructor')).toBeInstanceOf(RPCAccessError);
+            expect(hostObj.polluted).toBeUndefined();
+        });
+
+        test('not strict by default', () => {
+            rpc1 = new SuperRPC(nanoid);
+            rpc1.connect(channel1);
+            rpc1.registerHostObject('strict_obj', hostObj, {});
+            expect(call('prop_get', 'secret')).toBe('secret');
+        });
+    });
+
+    describe('authorization', () => {
+        let sender: string;
+        let calls: CallContext[];
+
+        beforeEach(() => {
+            // pass the sender as the context of each message, the way ipcMain passes the event
+            sender = 'main';
+            const receive = channel1.receive;
+            channel1.receive = callback => receive?.((message, replyChannel) => callback(message, replyChannel, { sender }));
+
+            calls = [];
+            rpc1 = new SuperRPC(nanoid, {
+                authorize: call => (calls.push(call), call.prop !== 'forbidden'),
+                hasCapability: (capability, call) => capability === 'windows' && call.context.sender === 'main'
+            });
+            rpc1.connect(channel1);
+
+            rpc1.registerHostObject('auth_obj', {
+                open: () => 'opened',
+                read: () => 'read',
+                forbidden: () => 'forbidden'
+            }, {
+                functions: ['open', { name: 'read', returns: 'sync' }, { name: 'forbidden', returns: 'sync' }]
+            }, {
+                authorize: ({ prop }) => prop === 'open' ? { capability: 'windows' } : true
+            });
+
+            rpc1.registerHostClass('auth_class', class { getValue() { return 1; } }, {
+                ctor: {},
+                instance: { functions: [{ name: 'getValue', returns: 'sync' }] }
+            }, {
+                authorize: ({ context }) => context.sender === 'main'
+            });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('allowed', async () => {
+            const proxyObj = rpc2.getProxyObject('auth_obj');
+            expect(proxyObj.read()).toBe('read');
+            expect(await proxyObj.open()).toBe('opened');
+            expect(calls[0]).toMatchObject({ action: 'method_call', objId: 'auth_obj', prop: 'read', context: { sender: 'main' } });
+        });
+
+        test('denied by the global policy', () => {
+            expect.assertions(3);
+            try {
+                rpc2.getProxyObject('auth_obj').forbidden();
+            } catch (err: any) {
+                expect(err).toBeInstanceOf(RPCAuthorizationError);
+                expect(err.prop).toBe('forbidden');
+                expect(err.capability).toBeUndefined();
+            }
+        });
+
+        test('capability required', async () => {
+            sender = 'popup';
+            const proxyObj = rpc2.getProxyObject('auth_obj');
+            expect(proxyObj.read()).toBe('read');
+            await expect(proxyObj.open()).rejects.toThrowError(RPCAuthorizationError);
+            await expect(proxyObj.open()).rejects.toMatchObject({ capability: 'windows' });
+        });
+
+        test('class policy applies to the constructor and the instances', () => {
+            const ProxyClass = rpc2.getProxyClass('auth_class');
+            const instance = new ProxyClass();
+            expect(instance.getValue()).toBe(1);
+
+            sender = 'popup';
+            expect(() => instance.getValue()).toThrowError(RPCAuthorizationError);
+            expect(() => new ProxyClass()).toThrowError(RPCAuthorizationError);
+        });
+
+        test('subscribing to events', async () => {
+            const emitter = new EventEmitter();
+            rpc1.registerHostObject('auth_emitter', emitter, { events: ['tick', 'forbidden'] }, {
+                authorize: ({ context }) => context.sender === 'main'
+            });
+            rpc1.sendRemoteDescriptors();
+            const proxyObj = rpc2.getProxyObject('auth_emitter');
+
+            proxyObj.on('forbidden', jest.fn());
+            await delayPromise(10);
+            expect(emitter.listenerCount('forbidden')).toBe(0);
+            expect(calls).toContainEqual(expect.objectContaining({ action: 'event_sub', objId: 'auth_emitter', prop: 'forbidden' }));
+
+            sender = 'popup';
+            const listener = jest.fn();
+            proxyObj.on('tick', listener);
+            await delayPromise(10);
+            expect(emitter.listenerCount('tick')).toBe(0);
+
+            sender = 'main';
+            proxyObj.off('tick', listener);
+            proxyObj.on('tick', listener);
+            await delayPromise(10);
+            expect(emitter.listenerCount('tick')).toBe(1);
+        });
+    });
+
+    describe('interceptors', () => {
+        beforeEach(() => {
+            rpc1.registerHostObject('icpt_obj', {
+                echo: (value: string) => value,
+                echoAsync: (value: string) => Promise.resolve(value)
+            }, {
+                functions: [{ name: 'echo', returns: 'sync' }, 'echoAsync']
+            });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('sees the messages in both directions', async () => {
+            const log: string[] = [];
+            rpc2.addInterceptor({
+                outbound: (message, ctx, next) => (log.push(`${ctx.direction} ${message.action}`), next(message)),
+                inbound: (message, ctx, next) => (log.push(`${ctx.direction} ${message.action}`), next(message))
+            });
+
+            const proxyObj = rpc2.getProxyObject('icpt_obj');
+            expect(proxyObj.echo('sync')).toBe('sync');
+            expect(await proxyObj.echoAsync('async')).toBe('async');
+
+            expect(log).toEqual(['outbound method_call', 'inbound fn_reply', 'outbound method_call', 'inbound fn_reply']);
+        });
+
+        test('changes and rejects messages', async () => {
+            rpc2.addInterceptor({
+                outbound: (message, ctx, next) => next({ ...message, token: 'secret' } as any)
+            });
+            rpc1.addInterceptor({
+                inbound: (message: any, ctx, next) => {
+                    if (message.action === 'method_call' && message.token !== 'secret') throw new Error('no token');
+                    return next(message);
+                }
+            });
+
+            expect(rpc2.getProxyObject('icpt_obj').echo('with token')).toBe('with token');
+
+            const rpc3 = new SuperRPC(nanoid);
+            rpc3.connect(channel2);
+            rpc3.requestRemoteDescriptors();
+            expect(() => rpc3.getProxyObject('icpt_obj').echo('without token')).toThrowError('no token');
+        });
+
+        test('rejecting an inbound async call fails the call', async () => {
+            rpc1.addInterceptor({
+                inbound: (message, ctx, next) => {
+                    if (message.action === 'method_call') throw new RPCAuthorizationError('icpt_obj', 'echoAsync');
+                    return next(message);
+                }
+            });
+            await expect(rpc2.getProxyObject('icpt_obj').echoAsync('rejected')).rejects.toThrowError(RPCAuthorizationError);
+            expect((rpc2 as any).asyncCallbacks.size).toBe(0);
+        });
+
+        test('async interceptors reject with a rejected promise', async () => {
+            rpc1.addInterceptor({
+                inbound: async (message, ctx, next) => {
+                    await delayPromise(1);
+                    if (message.action === 'method_call') throw new RPCAuthorizationError('icpt_obj', 'echoAsync');
+                    return next(message);
+                }
+            });
+            await expect(rpc2.getProxyObject('icpt_obj').echoAsync('rejected')).rejects.toThrowError(RPCAuthorizationError);
+            expect((rpc2 as any).asyncCallbacks.size).toBe(0);
+        });
+
+        test('errors of processing a message are not rejections', () => {
+            rpc1.addInterceptor({ inbound: (message, ctx, next) => next(message) });
+            jest.spyOn(rpc1 as any, 'processMessage').mockImplementation(() => { throw new Error('bug'); });
+            const sendAsync = jest.spyOn(channel2ReplyChannel, 'sendAsync');
+
+            const message = { rpc_marker: 'srpc', action: 'fn_call', callType: 'async', callId: 1, objId: 'icpt_obj', args: [] };
+            expect(() => (rpc1 as any).messageReceived(message, channel2ReplyChannel)).toThrowError('bug');
+            expect(sendAsync).not.toHaveBeenCalled();
+        });
+
+        test('delays messages', async () => {
+            rpc2.addInterceptor({
+                outbound: (message, ctx, next) => setTimeout(() => next(message), 10)
+            });
+            expect(await rpc2.getProxyObject('icpt_obj').echoAsync('delayed')).toBe('delayed');
+        });
+
+        test('drops messages', async () => {
+            const interceptor = { inbound: jest.fn() };
+            rpc1.addInterceptor(interceptor);
+            rpc2.getProxyObject('icpt_obj').echoAsync('dropped');
+            await delayPromise(0);
+            expect(interceptor.inbound).toHaveBeenCalled();
+            expect((rpc2 as any).asyncCallbacks.size).toBe(1);
+
+            rpc1.removeInterceptor(interceptor);
+            expect(await rpc2.getProxyObject('icpt_obj').echoAsync('passed')).toBe('passed');
+        });
+
+        test('inbound context', () => {
+            const inbound = jest.fn((message, ctx, next) => next(message));
+            rpc1.addInterceptor({ inbound });
+            rpc2.getProxyObject('icpt_obj').echo('ctx');
+            expect(inbound).toHaveBeenCalledWith(expect.objectContaining({ action: 'method_call' }),
+                { direction: 'inbound', channel: channel2ReplyChannel, context: undefined }, expect.any(Function));
+        });
+    });
+
+    describe('tracing', () => {
+        let spans1: Span[];
+        let spans2: Span[];
+
+        beforeEach(() => {
+            spans1 = [];
+            spans2 = [];
+            rpc1 = new SuperRPC(nanoid, { traceSink: span => spans1.push(span) });
+            rpc2 = new SuperRPC(nanoid, { traceSink: span => spans2.push(span) });
+            rpc1.connect(channel1);
+            rpc2.connect(channel2);
+
+            // rpc2 hosts a "renderer" object, rpc1 hosts the "main" service that calls back into it
+            rpc2.registerHostObject('renderer_obj', { getName: () => 'renderer' }, { functions: [{ name: 'getName', returns: 'sync' }] });
+            rpc2.sendRemoteDescriptors();
+
+            rpc1.registerHostObject('main_obj', {
+                callRenderer: () => rpc1.getProxyObject('renderer_obj').getName(),
+                addListener: (listener: () => void) => setTimeout(listener, 0),
+                fail: () => Promise.reject(new Error('failed'))
+            }, {
+                functions: [
+                    { name: 'callRenderer', returns: 'sync' },
+                    { name: 'addListener', returns: 'void', arguments: [{ idx: 0, type: 'function', returns: 'void' }] },
+                    'fail'
+                ]
+            });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('client and server spans of a call', async () => {
+            expect(rpc2.getProxyObject('main_obj').callRenderer()).toBe('renderer');
+
+            const [client] = spans2.filter(span => span.kind === 'client');
+            const [server, nestedClient] = [spans1.find(span => span.kind === 'server'), spans1.find(span => span.kind === 'client')];
+            const nestedServer = spans2.find(span => span.kind === 'server');
+
+            expect(client).toMatchObject({ action: 'method_call', callType: 'sync', objId: 'main_obj', prop: 'callRenderer', success: true });
+            expect(client.parentSpanId).toBeUndefined();
+            expect(client.duration).toBe(client.endTime - client.startTime);
+
+            // the same trace across both sides
+            expect(server).toMatchObject({ traceId: client.traceId, parentSpanId: client.spanId, prop: 'callRenderer' });
+            expect(nestedClient).toMatchObject({ traceId: client.traceId, parentSpanId: server?.spanId, prop: 'getName' });
+            expect(nestedServer).toMatchObject({ traceId: client.traceId, parentSpanId: nestedClient?.spanId, prop: 'getName' });
+        });
+
+        test('listener calls belong to the call that passed the listener', async () => {
+            const listener = jest.fn();
+            rpc2.getProxyObject('main_obj').addListener(listener);
+            await delayPromise(10);
+            expect(listener).toHaveBeenCalled();
+
+            const addListenerSpan = spans1.find(span => span.kind === 'server' && span.prop === 'addListener');
+            const listenerSpan = spans1.find(span => span.kind === 'client' && span.action === 'fn_call');
+            expect(listenerSpan).toMatchObject({ traceId: addListenerSpan?.traceId, parentSpanId: addListenerSpan?.spanId, callType: 'void' });
+        });
+
+        test('failed call', async () => {
+            await expect(rpc2.getProxyObject('main_obj').fail()).rejects.toThrowError('failed');
+            expect(spans1).toEqual([expect.objectContaining({ kind: 'server', success: false, error: new Error('failed') })]);
+            expect(spans2).toEqual([expect.objectContaining({ kind: 'client', callType: 'async', success: false })]);
+        });
+
+        test('ids are propagated without a sink', () => {
+            rpc1 = new SuperRPC(nanoid);
+            rpc1.connect(channel1);
+            rpc1.registerHostObject('main_obj', {
+                callRenderer: () => rpc1.getProxyObject('renderer_obj').getName()
+            }, { functions: [{ name: 'callRenderer', returns: 'sync' }] });
+            rpc1.requestRemoteDescriptors();
+            rpc1.sendRemoteDescriptors();
+
+            rpc2.getProxyObject('main_obj').callRenderer();
+            const [nestedServer, client] = spans2;
+            expect(nestedServer).toMatchObject({ kind: 'server', prop: 'getName', traceId: client.traceId });
+        });
+
+        test('no trace ids if tracing is off', () => {
+            const sendSync = jest.spyOn(channel1, 'sendSync');
+            rpc1 = new SuperRPC(nanoid);
+            rpc1.connect(channel1);
+            rpc1.requestRemoteDescriptors();
+            rpc1.getProxyObject('renderer_obj').getName();
+            expect(sendSync).toHaveBeenLastCalledWith(expect.not.objectContaining({ trace: expect.anything() }));
+        });
+    });
+
+    describe('metrics', () => {
+        beforeEach(() => {
+            rpc1 = new SuperRPC(nanoid, { metrics: true });
+            rpc2 = new SuperRPC(nanoid, { metrics: true });
+            rpc1.connect(channel1);
+            rpc2.connect(channel2);
+
+            rpc1.registerHostObject('metrics_obj', {
+                syncFunc: () => 'sync',
+                asyncFunc: () => Promise.resolve('async'),
+                fail: () => { throw new Error('fail'); },
+                createInstance: () => new MetricsClass()
+            }, {
+                functions: [{ name: 'syncFunc', returns: 'sync' }, 'asyncFunc', { name: 'fail', returns: 'sync' }, { name: 'createInstance', returns: 'sync' }]
+            });
+
+            class MetricsClass { getValue() { return 1; } }
+            rpc1.registerHostClass('metrics_class', MetricsClass, { instance: { functions: [{ name: 'getValue', returns: 'sync' }] } });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('calls per member', async () => {
+            const proxyObj = rpc2.getProxyObject('metrics_obj');
+            proxyObj.syncFunc();
+            proxyObj.syncFunc();
+            await proxyObj.asyncFunc();
+            expect(() => proxyObj.fail()).toThrowError('fail');
+            proxyObj.createInstance().getValue();
+
+            const outgoing = rpc2.getMetrics()?.calls.outgoing;
+            expect(outgoing?.['metrics_obj.syncFunc']).toMatchObject({ count: 2, errors: 0, latency: { count: 2 } });
+            expect(outgoing?.['metrics_obj.asyncFunc']).toMatchObject({ count: 1, errors: 0 });
+            expect(outgoing?.['metrics_obj.fail']).toMatchObject({ count: 1, errors: 1 });
+            expect(outgoing?.['metrics_class#getValue']).toMatchObject({ count: 1 });
+
+            const incoming = rpc1.getMetrics()?.calls.incoming;
+            expect(incoming?.['metrics_obj.syncFunc']).toMatchObject({ count: 2, errors: 0 });
+            expect(incoming?.['metrics_obj.fail']).toMatchObject({ count: 1, errors: 1 });
+            expect(incoming?.['metrics_class#getValue']).toMatchObject({ count: 1 });
+
+            const latency = rpc2.getMetrics()?.latency;
+            expect(latency?.sync.count).toBe(5);
+            expect(latency?.async.count).toBe(1);
+        });
+
+        test('messages and registries', async () => {
+            const proxyObj = rpc2.getProxyObject('metrics_obj');
+            const pending = proxyObj.asyncFunc();
+
+            let metrics = rpc2.getMetrics();
+            expect(metrics?.pendingAsyncCalls).toBe(1);
+            expect(metrics?.proxyObjects).toBe(1);
+            await pending;
+
+            const instance = proxyObj.createInstance();
+            expect(rpc1.getMetrics()?.hostObjects).toBe(2);
+            instance[rpc_disposeFunc]();
+            await delayPromise(0);
+
+            metrics = rpc2.getMetrics();
+            expect(metrics?.pendingAsyncCalls).toBe(0);
+            expect(metrics?.objDied).toEqual({ sent: 1, received: 0 });
+            expect(metrics?.messages.sent.actions).toMatchObject({ method_call: 2, obj_died: 1 });
+            expect(metrics?.messages.sent.bytes).toBeGreaterThan(0);
+            expect(metrics?.messages.received.actions).toMatchObject({ fn_reply: 2 });
+            expect(rpc1.getMetrics()?.objDied).toEqual({ sent: 0, received: 1 });
+            expect(rpc1.getMetrics()?.hostObjects).toBe(1);
+        });
+
+        test('periodic snapshots', async () => {
+            jest.useFakeTimers();
+            rpc2 = new SuperRPC(nanoid, { metrics: { interval: 1000 } });
+            const listener = jest.fn();
+            rpc2.on('metrics', listener);
+            rpc2.connect(channel2);
+
+            jest.advanceTimersByTime(2500);
+            expect(listener).toHaveBeenCalledTimes(2);
+            expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ pendingAsyncCalls: 0 }));
+
+            rpc2.disconnect();
+            jest.advanceTimersByTime(2000);
+            expect(listener).toHaveBeenCalledTimes(2);
+        });
+
+        test('off by default', () => {
+            expect(new SuperRPC(nanoid).getMetrics()).toBeUndefined();
+        });
+    });
+
+    describe('debug hook', () => {
+        beforeEach(() => {
+            rpc1.registerHostObject('debug_obj', { get: () => 'value', getAsync: () => Promise.resolve('async value') }, {
+                functions: [{ name: 'get', returns: 'sync' }, 'getAsync']
+            });
+            rpc1.registerHostClass('debug_class', class {}, {});
+            rpc2.requestRemoteDescriptors();
+        });
+
+        test('message event', async () => {
+            const messages: [string, string][] = [];
+            rpc2.on('message', (message, direction) => messages.push([direction, message.action]));
+
+            const proxyObj = rpc2.getProxyObject('debug_obj');
+            proxyObj.get();
+            await proxyObj.getAsync();
+
+            expect(messages).toEqual([
+                ['outbound', 'method_call'], ['inbound', 'fn_reply'],
+                ['outbound', 'method_call'], ['inbound', 'fn_reply']
+            ]);
+        });
+
+        test('debug info', () => {
+            rpc2.getProxyObject('debug_obj');
+            rpc2.getProxyClass('debug_class');
+
+            expect(rpc2.getDebugInfo()).toEqual({
+                peers: {
+                    '': {
+                        remoteObjectDescriptors: { debug_obj: expect.objectContaining({ type: 'object' }) },
+                        remoteClassDescriptors: { debug_class: expect.objectContaining({ classId: 'debug_class' }) },
+                        proxyObjectIds: ['debug_obj'],
+                        proxyClassIds: ['debug_class']
+                    }
+                },
+                hostObjectIds: [],
+                hostClassIds: [],
+                pendingAsyncCalls: 0
+            });
+            expect(rpc1.getDebugInfo()).toMatchObject({ hostObjectIds: ['debug_obj'], hostClassIds: ['debug_class'] });
+        });
+    });
+
+    /**
+     * Send everything through JSON, like most real channels.
+     */
+    function sendThroughJSON() {
+        const json = (value: unknown) => value === undefined ? value : JSON.parse(JSON.stringify(value));
+        for (const channel of [channel1, channel2, channel1ReplyChannel, channel2ReplyChannel]) {
+            const { sendSync, sendAsync } = channel;
+            if (sendSync) channel.sendSync = (message) => json(sendSync(json(message)));
+            if (sendAsync) channel.sendAsync = (message) => sendAsync(json(message));
+        }
+    }
+
+    describe('value types', () => {
+        beforeEach(sendThroughJSON);
+
+        test('built-in types', async () => {
+            // the last argument is the context of the call
+            rpc1.registerHostFunction('echo_sync', (...args: any[]) => args.slice(0, -1), { returns: 'sync' });
+            rpc1.registerHostFunction('echo_async', async (...args: any[]) => args.slice(0, -1), { returns: 'async' });
+            rpc1.sendRemoteDescriptors();
+
+            const floats = new Float64Array([1.5, -2, 3.25, 4]);
+            const createValues = () => [
+                new Date(1234567890), new Date(NaN), /a+b/gi, 12345678901234567890n,
+                new Map<unknown, unknown>([[new Date(0), 'epoch'], ['key', new Set([1, 2n])]]),
+                new Uint8Array([1, 2, 255]), floats.subarray(1, 3), new BigInt64Array([-1n]), new Uint16Array([1, 2]).buffer,
+                [1, undefined, 3], { nested: { at: new Date(0) } }, undefined
+            ];
+            const values = createValues();
+
+            for (const echo of [rpc2.getProxyObject('echo_sync'), rpc2.getProxyObject('echo_async')]) {
+                const result = await echo(...createValues());
+                expect(result).toHaveLength(values.length);
+                values.forEach((value, idx) => ![1, 8].includes(idx) && expect(result[idx]).toEqual(value));
+                expect(result[0]).toBeInstanceOf(Date);
+                expect(result[1].getTime()).toBeNaN();
+                expect(result[6]).toBeInstanceOf(Float64Array);
+                expect(result[6]).toEqual(new Float64Array([-2, 3.25]));
+                // ArrayBuffers of the test and the library are from different realms in jest
+                expect(Object.prototype.toString.call(result[8])).toBe('[object ArrayBuffer]');
+                expect(new Uint16Array(result[8])).toEqual(new Uint16Array([1, 2]));
+                expect(result[9]).toHaveLength(3);
+            }
+        });
+
+        test('undefined in collections', () => {
+            rpc1.registerHostFunction('echo', (value: unknown) => value, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+            const echo = rpc2.getProxyObject('echo');
+
+            const map = echo(new Map<unknown, unknown>([[undefined, 1], ['key', undefined]]));
+            expect([...map]).toEqual([[undefined, 1], ['key', undefined]]);
+            expect(map.has(undefined)).toBe(true);
+            const set = echo(new Set([undefined, null]));
+            expect([...set]).toEqual([undefined, null]);
+        });
+
+        test('custom type', () => {
+            class Point {
+                constructor(public x: number, public y: number) {}
+            }
+            const pointType = {
+                test: (value: unknown) => value instanceof Point,
+                serialize: (point: Point) => [point.x, point.y],
+                deserialize: ([x, y]: number[]) => new Point(x, y)
+            };
+            rpc1.registerValueType('Point', pointType);
+            rpc2.registerValueType('Point', pointType);
+
+            rpc1.registerHostFunction('mirror', (point: Point) => new Point(-point.x, -point.y), { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+
+            const result = rpc2.getProxyObject('mirror')(new Point(1, 2));
+            expect(result).toBeInstanceOf(Point);
+            expect(result).toEqual(new Point(-1, -2));
+        });
+
+        test('nested values are serialized with the callback', () => {
+            const boxType = {
+                test: (value: unknown) => value instanceof Map && value.has('box'),
+                serialize: (box: Map<string, unknown>, serialize: (value: unknown) => unknown) => serialize(box.get('box')),
+                deserialize: (data: unknown, deserialize: (value: unknown) => unknown) => new Map([['box', deserialize(data)]])
+            };
+            rpc1.registerValueType('Box', boxType);
+            rpc2.registerValueType('Box', boxType);
+
+            rpc1.registerHostFunction('echo', (box: unknown) => box, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+
+            const box = new Map([['box', new Date(5)]]);
+            // the custom type is tested before the built-in Map
+            expect(rpc2.getProxyObject('echo')(box)).toEqual(box);
+        });
+
+        test('override built-in type', () => {
+            const hostFunc = jest.fn();
+            rpc1.registerHostFunction('host_func', hostFunc, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+            rpc2.registerValueType('Date', { test: (value) => value instanceof Date, serialize: (date: Date) => date.getTime(), deserialize: (time: number) => new Date(time) });
+
+            const messages: any[] = [];
+            rpc2.on('message', (message, direction) => direction === 'outbound' && messages.push(message));
+
+            rpc2.getProxyObject('host_func')(new Date(10));
+            expect(messages[0].args[0]).toEqual({ _rpc_type: 'value', valueType: 'Date', data: 10 });
+            expect(hostFunc.mock.calls[0][0]).toEqual(new Date(10));
+        });
+
+        test('unknown type arrives as its data', () => {
+            const hostFunc = jest.fn();
+            rpc1.registerHostFunction('host_func', hostFunc, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+            rpc2.registerValueType('Celsius', { test: (value: any) => value?.unit === 'C', serialize: (value: any) => value.degrees, deserialize: (degrees: number) => ({ unit: 'C', degrees }) });
+
+            rpc2.getProxyObject('host_func')({ unit: 'C', degrees: 21 });
+            expect(hostFunc.mock.calls[0][0]).toBe(21);
+        });
+
+        test('instances of registered classes are proxied, not copied', () => {
+            class Store extends Map<string, number> {
+                getCount() {
+                    return this.size;
+                }
+            }
+            rpc1.registerHostClass('Store', Store, { instance: { functions: [{ name: 'getCount', returns: 'sync' }] } });
+            rpc1.registerHostFunction('getStore', () => ({ store: new Store([['a', 1]]) }), { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+            rpc2.requestRemoteDescriptors();
+
+            const { store } = rpc2.getProxyObject('getStore')();
+            expect(store).not.toBeInstanceOf(Map);
+            expect(store.getCount()).toBe(1);
+        });
+    });
+
+    describe('object graphs', () => {
+        beforeEach(() => {
+            sendThroughJSON();
+            // the last argument is the context of the call
+            rpc1.registerHostFunction('echo', (...args: any[]) => args.slice(0, -1), { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('the sent objects are not changed', () => {
+            const hostFunc = jest.fn();
+            rpc1.registerHostFunction('host_func', hostFunc, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+
+            const callback = jest.fn();
+            const config = { name: 'config', callback, items: [callback, undefined] };
+            rpc2.getProxyObject('host_func')(config);
+
+            expect(config).toEqual({ name: 'config', callback, items: [callback, undefined] });
+            expect(config.callback).toBe(callback);
+
+            const received = hostFunc.mock.calls[0][0];
+            expect(typeof received.callback).toBe('function');
+            expect(received.items[0]).toBe(received.callback);
+        });
+
+        test('the received message is not changed', () => {
+            rpc1.registerHostFunction('host_func', jest.fn(), { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+            const messages: any[] = [];
+            rpc1.on('message', (message, direction) => direction === 'inbound' && messages.push(message));
+
+            rpc2.getProxyObject('host_func')({ callback: () => 1, at: new Date(0) });
+            expect(messages[0].args[0].callback._rpc_type).toBe('function');
+            expect(messages[0].args[0].at._rpc_type).toBe('value');
+        });
+
+        test('cycles', () => {
+            const node: any = { name: 'root', children: [] };
+            node.children.push({ name: 'child', parent: node });
+            node.children.push(node.children);
+
+            const [result] = rpc2.getProxyObject('echo')(node);
+            expect(result.name).toBe('root');
+            expect(result.children[0].parent).toBe(result);
+            expect(result.children[1]).toBe(result.children);
+        });
+
+        test('shared references', () => {
+            const shared = { value: 1 };
+            const date = new Date(0);
+            const map = new Map([['shared', shared]]);
+
+            const [first, second, third] = rpc2.getProxyObject('echo')({ a: shared, b: shared, date }, [shared, date], map);
+            expect(first.a).toBe(first.b);
+            expect(second[0]).toBe(first.a);
+            expect(second[1]).toBe(first.date);
+            expect(second[1]).toBeInstanceOf(Date);
+            expect(third.get('shared')).toBe(first.a);
+        });
+
+        test('only the shared objects are sent as refs', () => {
+            const messages: any[] = [];
+            rpc2.on('message', (message, direction) => direction === 'outbound' && messages.push(message));
+            const shared = [1];
+
+            rpc2.getProxyObject('echo')({ a: { x: 1 } }, shared, shared);
+            expect(messages[0].args).toEqual([
+                { a: { x: 1 } },
+                { _rpc_type: 'ref', id: 0, value: [1] },
+                { _rpc_type: 'ref', id: 0 }
+            ]);
+        });
+
+        test('cycles through a value type are not supported', () => {
+            const obj: any = {};
+            obj.map = new Map([['obj', obj]]);
+            const map = new Map<string, unknown>();
+            map.set('self', map);
+
+            // through a plain object it works
+            const [result] = rpc2.getProxyObject('echo')(obj);
+            expect(result.map.get('obj')).toBe(result);
+            expect(() => rpc2.getProxyObject('echo')(map)).toThrow('Cyclic references');
+        });
+    });
+
+    describe('async iterables', () => {
+        beforeEach(sendThroughJSON);
+
+        test('returning an async generator', async () => {
+            rpc1.registerHostFunction('lines', async function* (count: number) {
+                for (let idx = 0; idx < count; idx++) yield { line: idx, at: new Date(idx) };
+            }, { returns: 'async' });
+            rpc1.sendRemoteDescriptors();
+
+            const lines = [];
+            for await (const line of await rpc2.getProxyObject('lines')(3)) {
+                lines.push(line);
+            }
+            expect(lines).toEqual([0, 1, 2].map(idx => ({ line: idx, at: new Date(idx) })));
+        });
+
+        test('chunks are pulled on demand', async () => {
+            let produced = 0;
+            rpc1.registerHostFunction('numbers', async function* () {
+                while (true) yield ++produced;
+            }, { returns: 'async' });
+            rpc1.sendRemoteDescriptors();
+
+            const iterator: AsyncIterableIterator<number> = await rpc2.getProxyObject('numbers')();
+            await delayPromise(10);
+            expect(produced).toBe(0);
+
+            expect(await iterator.next()).toEqual({ done: false, value: 1 });
+            expect(await iterator.next()).toEqual({ done: false, value: 2 });
+            await delayPromise(10);
+            expect(produced).toBe(2);
+        });
+
+        test('early return', async () => {
+            const cleanup = jest.fn();
+            rpc1.registerHostFunction('numbers', async function* () {
+                try {
+                    for (let idx = 0; ; idx++) yield idx;
+                } finally {
+                    cleanup();
+                }
+            }, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+            const hostObjectCount = rpc1.getDebugInfo().hostObjectIds.length;
+
+            for await (const value of rpc2.getProxyObject('numbers')()) {
+                if (value === 1) break;
+            }
+            expect(cleanup).toHaveBeenCalled();
+
+            // the source is released
+            await delayPromise(10);
+            expect(rpc1.getDebugInfo().hostObjectIds).toHaveLength(hostObjectCount);
+        });
+
+        test('the source of an abandoned iteration is returned', async () => {
+            const cleanup = jest.fn();
+            rpc1.registerHostFunction('numbers', async function* () {
+                try {
+                    for (let idx = 0; ; idx++) yield idx;
+                } finally {
+                    cleanup();
+                }
+            }, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+
+            const iterator = rpc2.getProxyObject('numbers')();
+            expect(await iterator.next()).toEqual({ done: false, value: 0 });
+            rpc1.disconnectPeer();
+            await delayPromise(0);
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+
+        test('a slow source does not time out', async () => {
+            rpc1.registerHostFunction('slowLines', async function* () {
+                yield 1;
+                await delayPromise(300);
+                yield 2;
+            }, { returns: 'async' });
+            rpc1.sendRemoteDescriptors();
+
+            const rpc3 = new SuperRPC(nanoid, { callTimeout: 100 });
+            rpc3.connect(channel2);
+            rpc3.requestRemoteDescriptors();
+
+            const lines = [];
+            for await (const line of await rpc3.getProxyObject('slowLines')()) {
+                lines.push(line);
+            }
+            expect(lines).toEqual([1, 2]);
+        });
+
+        test('errors are propagated', async () => {
+            rpc1.registerHostFunction('failing', async function* () {
+                yield 1;
+                throw new RangeError('out of lines');
+            }, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+
+            const iterator = rpc2.getProxyObject('failing')();
+            expect(await iterator.next()).toEqual({ done: false, value: 1 });
+            await expect(iterator.next()).rejects.toThrow(RangeError);
+            // the iteration is finished
+            expect(await iterator.next()).toEqual({ done: true, value: undefined });
+        });
+
+        test('ReadableStream', async () => {
+            // not a global in the jest environment
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const { ReadableStream } = require('stream/web');
+            const chunks = ['a', 'b', 'c'];
+            const stream = new ReadableStream({
+                pull(controller: ReadableStreamDefaultController) {
+                    const chunk = chunks.shift();
+                    if (chunk) controller.enqueue(chunk);
+                    else controller.close();
+                }
+            });
+            rpc1.registerHostFunction('stream', () => stream, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+
+            const received = [];
+            for await (const chunk of rpc2.getProxyObject('stream')()) {
+                received.push(chunk);
+            }
+            expect(received).toEqual(['a', 'b', 'c']);
+        });
+
+        test('passing an async iterable as an argument', async () => {
+            rpc1.registerHostFunction('sum', async (numbers: AsyncIterable<number>) => {
+                let sum = 0;
+                for await (const value of numbers) sum += value;
+                return sum;
+            }, { returns: 'async' });
+            rpc1.sendRemoteDescriptors();
+
+            const numbers = {
+                async *[Symbol.asyncIterator]() {
+                    yield* [1, 2, 3];
+                }
+            };
+            expect(await rpc2.getProxyObject('sum')(numbers)).toBe(6);
+        });
+    });
+
+    describe('events', () => {
+        let emitter: EventEmitter;
+        let proxyObj: any;
+
+        beforeEach(() => {
+            emitter = new EventEmitter();
+            rpc1.registerHostObject('emitter', emitter, { events: ['tick', 'tock'] });
+            rpc1.sendRemoteDescriptors();
+            proxyObj = rpc2.getProxyObject('emitter');
+        });
+
+        test('on/off', async () => {
+            const listener1 = jest.fn();
+            const listener2 = jest.fn();
+            proxyObj.on('tick', listener1).on('tick', listener2);
+            await delayPromise(10);
+            // one subscription for both listeners
+            expect(emitter.listenerCount('tick')).toBe(1);
+
+            emitter.emit('tick', 1, { at: new Date(0) });
+            await delayPromise(10);
+            expect(listener1).toHaveBeenCalledWith(1, { at: new Date(0) });
+            expect(listener2).toHaveBeenCalledTimes(1);
+
+            proxyObj.off('tick', listener1);
+            emitter.emit('tick', 2);
+            await delayPromise(10);
+            expect(listener1).toHaveBeenCalledTimes(1);
+            expect(listener2).toHaveBeenCalledTimes(2);
+            expect(emitter.listenerCount('tick')).toBe(1);
+
+            proxyObj.off('tick', listener2);
+            await delayPromise(10);
+            expect(emitter.listenerCount('tick')).toBe(0);
+        });
+
+        test('once', async () => {
+            const listener = jest.fn();
+            proxyObj.once('tick', listener);
+            await delayPromise(10);
+
+            emitter.emit('tick', 1);
+            emitter.emit('tick', 2);
+            await delayPromise(10);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith(1);
+            expect(emitter.listenerCount('tick')).toBe(0);
+
+            // removing it before the event
+            proxyObj.once('tock', listener).off('tock', listener);
+            await delayPromise(10);
+            expect(emitter.listenerCount('tock')).toBe(0);
+        });
+
+        test('a failing listener does not stop the others', async () => {
+            const reported: VoidFunction[] = [];
+            const queueMicrotask = jest.spyOn(global, 'queueMicrotask').mockImplementation(callback => reported.push(callback));
+            const listener = jest.fn();
+            proxyObj.on('tick', () => { throw new Error('listener failed'); }).on('tick', listener);
+            await delayPromise(10);
+
+            emitter.emit('tick', 1);
+            await delayPromise(10);
+            queueMicrotask.mockRestore();
+            expect(listener).toHaveBeenCalledWith(1);
+            expect(reported).toHaveLength(1);
+            expect(reported[0]).toThrowError('listener failed');
+        });
+
+        test('async iterator', async () => {
+            const events = proxyObj.events('tick');
+            await delayPromise(10);
+
+            emitter.emit('tick', 1);
+            emitter.emit('tick', 2, 'two');
+            expect(await events.next()).toEqual({ done: false, value: [1] });
+            expect(await events.next()).toEqual({ done: false, value: [2, 'two'] });
+
+            const next = events.next();
+            emitter.emit('tick', 3);
+            expect(await next).toEqual({ done: false, value: [3] });
+
+            await events.return();
+            await delayPromise(10);
+            expect(emitter.listenerCount('tick')).toBe(0);
+        });
+
+        test('only the events in the descriptor', async () => {
+            expect(() => proxyObj.on('other', jest.fn())).toThrowError(/not exposed/);
+
+            // forged subscription
+            channel2.sendAsync?.({ rpc_marker: 'srpc', action: 'event_sub', objId: 'emitter', event: 'other' });
+            await delayPromise(10);
+            expect(emitter.listenerCount('other')).toBe(0);
+        });
+
+        test('instances of a class, cleaned up on dispose', async () => {
+            class Timer extends EventEmitter {
+                tick() {
+                    this.emit('tick');
+                }
+            }
+            const timer = new Timer();
+            rpc1.registerHostClass('Timer', Timer, { instance: { functions: ['tick'], events: ['tick'] } });
+            rpc1.registerHostFunction('getTimer', () => timer, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+
+            const proxyTimer = rpc2.getProxyObject('getTimer')();
+            const listener = jest.fn();
+            proxyTimer.on('tick', listener);
+            await proxyTimer.tick();
+            await delayPromise(10);
+            expect(listener).toHaveBeenCalledTimes(1);
+
+            proxyTimer[rpc_disposeFunc]();
+            await delayPromise(10);
+            expect(timer.listenerCount('tick')).toBe(0);
+        });
+
+        test('disconnect', async () => {
+            const events = proxyObj.events('tick');
+            proxyObj.on('tock', jest.fn());
+            await delayPromise(10);
+            expect(emitter.listenerCount('tock')).toBe(1);
+
+            rpc2.disconnect();
+            expect(await events.next()).toEqual({ done: true, value: undefined });
+
+            rpc1.disconnect();
+            expect(emitter.listenerCount('tick') + emitter.listenerCount('tock')).toBe(0);
+        });
+    });
+
+    describe('live properties', () => {
+        let settings: any;
+        let proxyObj: any;
+        let messages: RPC_Message[];
+
+        beforeEach(() => {
+            settings = {
+                theme: 'light',
+                items: [] as string[],
+                get count() { return this.items.length; },
+                addItem(item: string) {
+                    this.items.push(item);
+                    rpc1.notifyPropertyChanged(this, 'count');
+                }
+            };
+            rpc1.registerHostObject('settings', settings, {
+                functions: ['addItem'],
+                proxiedProperties: [{ name: 'theme', live: true }, { name: 'count', live: true, readonly: true }, 'items']
+            });
+            rpc1.sendRemoteDescriptors();
+            proxyObj = rpc2.getProxyObject('settings');
+
+            messages = [];
+            rpc2.on('message', message => messages.push(message));
+        });
+
+        test('reads from the local cache', () => {
+            expect(proxyObj.theme).toBe('light');
+            expect(proxyObj.count).toBe(0);
+            expect(messages).toEqual([]);
+        });
+
+        test('assigning on the host side is pushed', async () => {
+            const listener = jest.fn();
+            proxyObj.on('propertyChanged', listener);
+
+            settings.theme = 'dark';
+            expect(settings.theme).toBe('dark');
+            await delayPromise(10);
+
+            expect(proxyObj.theme).toBe('dark');
+            expect(listener).toHaveBeenCalledWith('theme', 'dark', 'light');
+
+            // no change, no message
+            settings.theme = 'dark';
+            await delayPromise(10);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(messages.filter(message => message.action === 'prop_changed')).toHaveLength(1);
+        });
+
+        test('notifyPropertyChanged', async () => {
+            const listener = jest.fn();
+            proxyObj.on('propertyChanged', listener);
+
+            await proxyObj.addItem('one');
+            await delayPromise(10);
+            expect(proxyObj.count).toBe(1);
+            expect(listener).toHaveBeenCalledWith('count', 1, 0);
+
+            expect(() => rpc1.notifyPropertyChanged(settings, 'items')).toThrowError(/not live/);
+        });
+
+        test('assigning on the proxy side', async () => {
+            const listener = jest.fn();
+            proxyObj.on('propertyChanged', listener);
+
+            proxyObj.theme = 'dark';
+            expect(proxyObj.theme).toBe('dark');
+            expect(settings.theme).toBe('dark');
+            await delayPromise(10);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(() => proxyObj.count = 5).toThrowError();
+        });
+
+        test('changes before the proxy is created', async () => {
+            const other = { value: 1 };
+            rpc1.registerHostObject('other', other, { proxiedProperties: [{ name: 'value', live: true }] });
+            rpc1.sendRemoteDescriptors();
+
+            other.value = 2;
+            await delayPromise(10);
+            expect(rpc2.getProxyObject('other').value).toBe(2);
+        });
+
+        test('instances of a class', async () => {
+            class Counter {
+                value = 0;
+                startedAt = new Date(0);
+                increment() {
+                    this.value++;
+                }
+            }
+            const counter = new Counter();
+            rpc1.registerHostClass('Counter', Counter, {
+                instance: { functions: ['increment'], proxiedProperties: [{ name: 'value', live: true }, { name: 'startedAt', live: true }] }
+            });
+            rpc1.registerHostFunction('getCounter', () => counter, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+
+            const proxyCounter = rpc2.getProxyObject('getCounter')();
+            expect(proxyCounter.value).toBe(0);
+            expect(proxyCounter.startedAt).toEqual(new Date(0));
+
+            const changes = proxyCounter.events('propertyChanged');
+            await proxyCounter.increment();
+            expect(await changes.next()).toEqual({ done: false, value: ['value', 1, 0] });
+            expect(proxyCounter.value).toBe(1);
+
+            counter.startedAt = new Date(1000);
+            expect(await changes.next()).toEqual({ done: false, value: ['startedAt', new Date(1000), new Date(0)] });
+            await changes.return();
+
+            // the events of a disposed proxy are not delivered anymore
+            proxyCounter[rpc_disposeFunc]();
+            await delayPromise(10);
+            counter.value = 5;
+            await delayPromise(10);
+            expect(messages.filter(message => message.action === 'prop_changed')).toHaveLength(2);
+        });
+    });
+
+    describe('descriptor updates', () => {
+        let changes: jest.Mock;
+        let messages: RPC_Message[];
+
+        beforeEach(async () => {
+            rpc1 = new SuperRPC(nanoid, { autoSendDescriptors: true });
+            rpc1.connect(channel1);
+            rpc1.registerHostObject('first', { ping: () => 'pong' }, { functions: ['ping'] });
+            rpc2.requestRemoteDescriptors();
+            await delayPromise(10);
+
+            changes = jest.fn();
+            rpc2.on('remoteDescriptorsChange', changes);
+            messages = [];
+            rpc1.on('message', message => messages.push(message));
+        });
+
+        test('registrations are pushed', async () => {
+            class Late {
+                static create() { return new Late(); }
+            }
+            rpc1.registerHostFunction('late', () => 'late', {});
+            rpc1.registerHostClass('Late', Late, { ctor: {}, static: { functions: ['create'] } });
+            await delayPromise(10);
+
+            // the registrations of the same tick are sent in one message
+            expect(messages.map(message => message.action)).toEqual(['descriptors_update']);
+            expect(changes).toHaveBeenCalledWith('', {
+                addedObjects: ['late', 'Late', 'Late.ctor'], changedObjects: [], removedObjects: [],
+                addedClasses: ['Late'], changedClasses: [], removedClasses: []
+            });
+
+            expect(await rpc2.getProxyObject('late')()).toBe('late');
+            const ProxyLate: any = rpc2.getProxyClass('Late');
+            expect(ProxyLate.create).toBeDefined();
+        });
+
+        test('changed descriptor', async () => {
+            const first = rpc2.getProxyObject('first');
+            expect(await first.ping()).toBe('pong');
+
+            rpc1.registerHostObject('first', { ping: () => 'pong', pong: () => 'ping' }, { functions: ['ping', 'pong'] });
+            await delayPromise(10);
+            expect(changes).toHaveBeenCalledWith('', expect.objectContaining({ addedObjects: [], changedObjects: ['first'] }));
+
+            await expect(first.ping()).rejects.toThrowError(/disposed/);
+            const newFirst = rpc2.getProxyObject('first');
+            expect(newFirst).not.toBe(first);
+            expect(await newFirst.pong()).toBe('ping');
+        });
+
+        test('sending all descriptors again', async () => {
+            const first = rpc2.getProxyObject('first');
+            rpc1.sendRemoteDescriptors();
+            expect(changes).not.toHaveBeenCalled();
+            expect(rpc2.getProxyObject('first')).toBe(first);
+        });
+
+        test('no pushing by default', async () => {
+            const rpc = new SuperRPC(nanoid);
+            rpc.connect(channel1);
+            rpc.registerHostObject('other', {}, {});
+            await delayPromise(10);
+            expect(changes).not.toHaveBeenCalled();
+
+            rpc.sendRemoteDescriptors();
+            expect(changes).toHaveBeenCalledWith('', expect.objectContaining({ addedObjects: ['other'], removedObjects: ['first'] }));
+        });
+    });
+
+    describe('unregister and revoke', () => {
+        class Counter {
+            static instances = 0;
+            value = 0;
+            increment() { return ++this.value; }
+        }
+        const counterDescriptor = { ctor: { returns: 'sync' as const }, static: { readonlyProperties: ['instances'] }, instance: { functions: ['increment'] } };
+        let emitter: EventEmitter;
+
+        beforeEach(() => {
+            emitter = new EventEmitter();
+            rpc1.registerHostObject('emitter', Object.assign(emitter, { ping: () => 'pong' }), { functions: ['ping'], events: ['tick'] });
+            rpc1.registerHostClass('Counter', Counter, counterDescriptor);
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('unregisterHostObject', async () => {
+            const proxyObj = rpc2.getProxyObject('emitter');
+            proxyObj.on('tick', jest.fn());
+            await delayPromise(10);
+            expect(emitter.listenerCount('tick')).toBe(1);
+
+            expect(rpc1.unregisterHostObject('emitter')).toBe(true);
+            expect(rpc1.unregisterHostObject('emitter')).toBe(false);
+            expect(emitter.listenerCount('tick')).toBe(0);
+            await expect(proxyObj.ping()).rejects.toThrowError(/No object found/);
+        });
+
+        test('unregisterHostClass', async () => {
+            const ProxyCounter: any = rpc2.getProxyClass('Counter');
+            const counter = new ProxyCounter();
+
+            expect(rpc1.unregisterHostClass('Counter')).toBe(true);
+            expect(rpc1.getDebugInfo().hostObjectIds).not.toContain('Counter.ctor');
+            // the instances keep working
+            expect(await counter.increment()).toBe(1);
+            expect(() => new ProxyCounter()).toThrowError(/No object found/);
+        });
+
+        test('revokeHostObject', async () => {
+            const proxyObj = rpc2.getProxyObject('emitter');
+            const listener = jest.fn();
+            const changes = jest.fn();
+            rpc2.on('remoteDescriptorsChange', changes);
+
+            expect(rpc1.revokeHostObject('emitter')).toBe(true);
+            await delayPromise(10);
+
+            await expect(proxyObj.ping()).rejects.toThrowError(RPCRevokedError);
+            expect(() => proxyObj.on('tick', listener)).toThrowError(RPCRevokedError);
+            expect(changes).toHaveBeenCalledWith('', expect.objectContaining({ removedObjects: ['emitter'] }));
+            expect(() => rpc2.getProxyObject('emitter')).toThrowError();
+
+            expect(rpc1.revokeHostObject('emitter')).toBe(false);
+        });
+
+        test('revokeHostClass', async () => {
+            const ProxyCounter: any = rpc2.getProxyClass('Counter');
+            const counter = new ProxyCounter();
+            expect(await counter.increment()).toBe(1);
+
+            expect(rpc1.revokeHostClass('Counter')).toBe(true);
+            await delayPromise(10);
+
+            await expect(counter.increment()).rejects.toThrowError(RPCRevokedError);
+            expect(() => new ProxyCounter()).toThrowError(RPCRevokedError);
+            expect(() => rpc2.getProxyClass('Counter')).toThrowError();
+            // the instance has been released on the host side
+            expect(rpc1.getDebugInfo().hostObjectIds).toEqual(['emitter']);
+        });
+
+        test('a call arriving after revoking', async () => {
+            const proxyObj = rpc2.getProxyObject('emitter');
+            const call = proxyObj.ping();
+            rpc1.revokeHostObject('emitter');
+            await expect(call).rejects.toThrowError(RPCRevokedError);
+        });
+    });
+
+    describe('on-demand descriptors', () => {
+        class Counter {
+            static readonly MAX = 10;
+            value = 0;
+            increment() { return ++this.value; }
+        }
+        let messages: RPC_Message[];
+
+        beforeEach(() => {
+            rpc1.registerHostObject('service', { ping: () => 'pong' }, { functions: ['ping'] });
+            rpc1.registerHostObject('other', {}, {});
+            rpc1.registerHostClass('Counter', Counter, { ctor: {}, static: { readonlyProperties: ['MAX'] }, instance: { functions: ['increment'] } });
+            rpc1.registerHostFunction('getCounter', () => new Counter(), {});
+            rpc1.registerHostFunction('getCounterSync', () => new Counter(), { returns: 'sync' });
+
+            messages = [];
+            rpc2.on('message', (message, direction) => direction === 'outbound' && messages.push(message));
+        });
+
+        test('getProxyObjectAsync', async () => {
+            const service = await rpc2.getProxyObjectAsync('service');
+            expect(await service.ping()).toBe('pong');
+            expect(messages[0]).toMatchObject({ action: 'get_object_descriptors', objIds: ['service'], classIds: [] });
+            expect(Object.keys(rpc2.getDebugInfo().peers[''].remoteObjectDescriptors ?? {})).toEqual(['service']);
+
+            // known descriptors are not requested again
+            expect(await rpc2.getProxyObjectAsync('service')).toBe(service);
+            expect(messages.filter(message => message.action === 'get_object_descriptors')).toHaveLength(1);
+
+            await expect(rpc2.getProxyObjectAsync('unknown')).rejects.toThrowError(/No object registered/);
+        });
+
+        test('getProxyClassAsync', async () => {
+            const ProxyCounter: any = await rpc2.getProxyClassAsync('Counter');
+            expect(ProxyCounter.MAX).toBe(10);
+            const counter = new ProxyCounter();
+            expect(await counter.increment()).toBe(1);
+        });
+
+        test('the class of a received instance', async () => {
+            const getCounter = await rpc2.getProxyObjectAsync('getCounter');
+            const counter = await getCounter();
+            expect(await counter.increment()).toBe(1);
+            expect(messages.filter(message => message.action === 'get_object_descriptors')).toHaveLength(2);
+        });
+
+        test('the class of an instance received synchronously', async () => {
+            const getCounterSync = await rpc2.getProxyObjectAsync('getCounterSync');
+            const counter = getCounterSync();
+            expect(await counter.increment()).toBe(1);
+        });
+
+        describe('the order of the messages', () => {
+            class Item {}
+            let logged: string[];
+
+            const setUp = (options = {}) => {
+                rpc1 = new SuperRPC(nanoid, options);
+                rpc1.connect(channel1);
+                logged = [];
+                rpc1.registerHostFunction('log', (value: unknown) => logged.push(typeof value === 'object' ? 'item' : String(value)), {});
+                rpc2.registerHostClass('Item', Item, { instance: {} });
+                return rpc2.getProxyObjectAsync('log');
+            };
+
+            test('is kept while the class of an instance is fetched', async () => {
+                const log = await setUp();
+                await Promise.all([log(new Item()), log('second')]);
+                expect(logged).toEqual(['item', 'second']);
+            });
+
+            test('a failing message does not drop the rest', async () => {
+                const log = await setUp();
+                const reported: VoidFunction[] = [];
+                const queueMicrotask = jest.spyOn(global, 'queueMicrotask').mockImplementation(callback => reported.push(callback));
+                // the message fails when it is processed from the queue
+                const processMessage = (rpc1 as any).processMessage;
+                let failingSeen = 0;
+                jest.spyOn(rpc1 as any, 'processMessage').mockImplementation(function (this: any, message: any, ...rest: unknown[]) {
+                    if (message.args?.[0] === 'failing' && ++failingSeen === 2) throw new Error('bug');
+                    return processMessage.call(this, message, ...rest);
+                });
+
+                const first = log(new Item());
+                log('failing');
+                await Promise.all([first, log('third')]);
+                queueMicrotask.mockRestore();
+                expect(logged).toEqual(['item', 'third']);
+                expect(reported).toHaveLength(1);
+                expect(reported[0]).toThrowError('bug');
+            });
+
+            test('the class is not fetched in time', async () => {
+                const log = await setUp({ callTimeout: 100 });
+                // an older version on the other side, it does not answer
+                rpc2.addInterceptor({ inbound: (message, ctx, next) => message.action === 'get_object_descriptors' ? undefined : next(message) });
+
+                const first = log(new Item());
+                const second = log('second');
+                await expect(first).rejects.toThrowError(/No class registered/);
+                await expect(second).resolves.toBe(1);
+                expect(logged).toEqual(['second']);
+            });
+        });
+    });
+
+    describe('handshake', () => {
+        // changes what rpc1 tells about itself in the handshake
+        const changeReply = (change: (info: HandshakeInfo) => HandshakeInfo) => rpc1.addInterceptor({
+            outbound: (message: any, ctx, next) => next(message.action === 'handshake_reply' ? { ...message, info: change(message.info) } : message)
+        });
+        const changeFeatures = (features: Partial<HandshakeFeatures>) => changeReply(info => ({ ...info, features: { ...info.features, ...features } }));
+
+        test('exchanges the versions and features', async () => {
+            const listener1 = jest.fn();
+            const listener2 = jest.fn();
+            rpc1.on('handshake', listener1);
+            rpc2.on('handshake', listener2);
+
+            const info = await rpc2.handshake();
+            expect(info).toMatchObject({ protocolVersion, libraryVersion, features: { sync: true, async: true } });
+            expect(info.features.valueTypes).toContain('Date');
+            expect(info.features.extensions).toContain('events');
+
+            expect(rpc2.getPeerInfo()).toEqual(info);
+            expect(rpc1.getPeerInfo()).toMatchObject({ protocolVersion, libraryVersion });
+            expect(rpc2.getDebugInfo().peers[''].handshake).toEqual(info);
+            expect(listener1).toHaveBeenCalledWith('', rpc1.getPeerInfo(), undefined);
+            expect(listener2).toHaveBeenCalledWith('', info, undefined);
+        });
+
+        test('synchronously', async () => {
+            channel2.sendAsync = undefined;
+            await expect(rpc2.handshake()).resolves.toMatchObject({ protocolVersion });
+        });
+
+        test('protocol version mismatch', async () => {
+            changeReply(info => ({ ...info, protocolVersion: protocolVersion + 1, libraryVersion: '9.0.0' }));
+            const listener = jest.fn();
+            rpc2.on('handshake', listener);
+
+            const result = rpc2.handshake();
+            await expect(result).rejects.toThrowError(RPCProtocolError);
+            await expect(result).rejects.toThrowError(/the other side version 2 \(library 9\.0\.0\)/);
+            expect(listener.mock.calls[0][2]).toBeInstanceOf(RPCProtocolError);
+        });
+
+        test('no answer', async () => {
+            rpc2 = new SuperRPC(nanoid, { callTimeout: 50 });
+            rpc2.connect(channel2);
+            // a version of the library without the handshake ignores the message
+            rpc1.addInterceptor({ inbound: (message, ctx, next) => message.action === 'handshake' ? undefined : next(message) });
+
+            await expect(rpc2.handshake()).rejects.toThrowError(/did not answer the handshake/);
+        });
+
+        test('no answer without a call timeout', async () => {
+            jest.useFakeTimers();
+            rpc1.addInterceptor({ inbound: (message, ctx, next) => message.action === 'handshake' ? undefined : next(message) });
+
+            const handshake = rpc2.handshake();
+            jest.advanceTimersByTime(10000);
+            await expect(handshake).rejects.toThrowError(RPCProtocolError);
+        });
+
+        test('negotiated call types', async () => {
+            rpc1.registerHostFunction('syncFn', () => 42, { returns: 'sync' });
+            rpc1.registerHostObject('obj', { value: 1 }, { proxiedProperties: ['value'] });
+            rpc1.sendRemoteDescriptors();
+            changeFeatures({ sync: false });
+            await rpc2.handshake();
+
+            const syncFn = rpc2.getProxyObject('syncFn');
+            const result = syncFn();
+            expect(result).toBeInstanceOf(Promise);
+            expect(await result).toBe(42);
+
+            // the property setter falls back to "void"
+            const obj = rpc2.getProxyObject('obj');
+            obj.value = 2;
+            await delayPromise(10);
+            expect(await obj.value).toBe(2);
+        });
+
+        test('fallbacks for missing extensions', async () => {
+            rpc1.registerHostObject('service', { ping: () => 'pong' }, { functions: ['ping'], events: ['change'] });
+            changeFeatures({ extensions: [] });
+            await rpc2.handshake();
+
+            const messages: RPC_Message[] = [];
+            rpc2.on('message', (message, direction) => direction === 'outbound' && messages.push(message));
+
+            // all descriptors are requested instead of a single one
+            const service = await rpc2.getProxyObjectAsync('service');
+            expect(messages.map(message => message.action)).toEqual(['get_descriptors']);
+            expect(await service.ping()).toBe('pong');
+
+            expect(() => service.on('change', () => undefined)).toThrowError(/does not support events/);
+        });
+
+        test('features the other side does not support', async () => {
+            rpc1.registerHostFunction('echo', (value: unknown) => value, { returns: 'sync' });
+            rpc1.sendRemoteDescriptors();
+            const liveObj = { value: 1 };
+            rpc2.registerHostObject('live', liveObj, { proxiedProperties: [{ name: 'value', live: true }] });
+            rpc2.registerHostObject('revoked', {}, {});
+            changeFeatures({ extensions: [], valueTypes: ['Map'] });
+            await rpc2.handshake();
+
+            const messages: RPC_Message[] = [];
+            rpc2.on('message', (message, direction) => direction === 'outbound' && messages.push(message));
+
+            const echo = rpc2.getProxyObject('echo');
+            expect(() => echo((async function* () { yield 1; })())).toThrowError(/does not support async iterables/);
+            expect(() => echo(new Date())).toThrowError(/does not support the value type 'Date'/);
+            expect(echo(new Map([[1, 2]]))).toEqual(new Map([[1, 2]]));
+
+            // not pushed
+            liveObj.value = 2;
+            rpc2.revokeHostObject('revoked');
+            expect(messages.map(message => message.action)).toEqual(['fn_call']);
+        });
+    });
+
+    describe('timeouts', () => {
+        let resolveHost: (value: string) => void;
+
+        beforeEach(() => {
+            rpc2 = new SuperRPC(nanoid, { callTimeout: 100 });
+            rpc2.connect(channel2);
+
+            rpc1.registerHostObject('slow_obj', {
+                slowFunc: () => new Promise(resolve => resolveHost = resolve),
+                fastFunc: () => new Promise(resolve => setTimeout(() => resolve('fast'), 150))
+            }, {
+                functions: [
+                    'slowFunc',
+                    { name: 'fastFunc', timeout: 200 }
+                ]
+            });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('default timeout', async () => {
+            jest.useFakeTimers();
+            const promise = rpc2.getProxyObject('slow_obj').slowFunc();
+            jest.advanceTimersByTime(100);
+
+            await expect(promise).rejects.toThrowError(RPCTimeoutError);
+            expect((rpc2 as any).asyncCallbacks.size).toBe(0);
+        });
+
+        test('per-function timeout', async () => {
+            jest.useFakeTimers();
+            const promise = rpc2.getProxyObject('slow_obj').fastFunc();
+            // let the call message arrive, so the host side timer gets started
+            await delayPromise(0);
+            jest.advanceTimersByTime(150);
+
+            await expect(promise).resolves.toEqual('fast');
+        });
+
+        test('per-call timeout', async () => {
+            jest.useFakeTimers();
+            const promise = rpc2.getProxyObject('slow_obj').fastFunc(callOptions({ timeout: 50 }));
+            jest.advanceTimersByTime(50);
+
+            await expect(promise).rejects.toThrowError(RPCTimeoutError);
+        });
+
+        test('the options object is not changed', async () => {
+            const options = Object.freeze({ timeout: 300 });
+            expect(await rpc2.getProxyObject('slow_obj').fastFunc(callOptions(options))).toBe('fast');
+            expect(Object.getOwnPropertySymbols(options)).toHaveLength(0);
+        });
+
+        test('late reply is discarded', async () => {
+            jest.useFakeTimers();
+            const promise = rpc2.getProxyObject('slow_obj').slowFunc();
+            jest.advanceTimersByTime(100);
+            await expect(promise).rejects.toThrowError(RPCTimeoutError);
+
+            resolveHost('too late');
+            await waitForAllTimers();
+            expect((rpc2 as any).asyncCallbacks.size).toBe(0);
+        });
+    });
+
+    describe('cancellation', () => {
+        let hostSignal: AbortSignal | undefined;
+        let hostContext: any;
+
+        beforeEach(() => {
+            hostSignal = undefined;
+            rpc1.registerHostObject('long_obj', {
+                longRunning: () => {
+                    hostSignal = rpc1.currentCallContext?.signal;
+                    hostContext = rpc1.currentCallContext;
+                    return new Promise(() => { /* never */ });
+                }
+            }, {
+                functions: ['longRunning']
+            });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('abort an in-flight call', async () => {
+            const controller = new AbortController();
+            const promise = rpc2.getProxyObject('long_obj').longRunning(callOptions({ signal: controller.signal }));
+            await delayPromise(0);
+
+            expect(hostSignal?.aborted).toBe(false);
+            expect(hostContext).toMatchObject({ action: 'method_call', objId: 'long_obj', prop: 'longRunning' });
+            expect(rpc1.currentCallContext).toBeUndefined();
+
+            controller.abort();
+            await expect(promise).rejects.toThrowError(RPCAbortError);
+            expect((rpc2 as any).asyncCallbacks.size).toBe(0);
+
+            await delayPromise(0);
+            expect(hostSignal?.aborted).toBe(true);
+            expect((rpc1 as any).peers.get('').hostCallControllers.size).toBe(0);
+        });
+
+        test('already aborted signal', async () => {
+            const controller = new AbortController();
+            controller.abort();
+            await expect(rpc2.getProxyObject('long_obj').longRunning(callOptions({ signal: controller.signal })))
+                .rejects.toThrowError(RPCAbortError);
+            await delayPromise(0);
+            expect(hostSignal).toBeUndefined();
+        });
+
+        test('timeout cancels the host call', async () => {
+            const promise = rpc2.getProxyObject('long_obj').longRunning(callOptions({ timeout: 10 }));
+            await expect(promise).rejects.toThrowError(RPCTimeoutError);
+
+            await delayPromise(0);
+            expect(hostSignal?.aborted).toBe(true);
+        });
+    });
+
+    describe('multiple peers', () => {
+        let mainRpc: SuperRPC;
+        let peerRpcs: { [peerId: string]: SuperRPC };
+
+        beforeEach(async () => {
+            // one "main" channel serves multiple peers, like ipcMain in Electron
+            let mainReceive: (message: RPC_Message, replyChannel?: RPCChannel) => void;
+            mainRpc = new SuperRPC(nanoid);
+            mainRpc.connect({ receive: (callback) => mainReceive = callback });
+
+            peerRpcs = {};
+            for (const peerId of ['A', 'B']) {
+                let peerReceive: (message: RPC_Message, replyChannel?: RPCChannel) => void;
+                const replyChannel: RPCChannel = {
+                    peerId,
+                    sendAsync: (message) => Promise.resolve().then(() => peerReceive(message))
+                };
+                const peerRpc = peerRpcs[peerId] = new SuperRPC(nanoid);
+                peerRpc.connect({
+                    receive: (callback) => peerReceive = callback,
+                    sendAsync: (message) => Promise.resolve().then(() => mainReceive(message, replyChannel))
+                });
+                peerRpc.registerHostObject('peer_obj', { getName: () => 'peer ' + peerId }, { functions: ['getName'] });
+                mainRpc.registerHostFunction('hello', () => 'hello', { returns: 'async' });
+            }
+
+            for (const peerRpc of Object.values(peerRpcs)) {
+                await peerRpc.requestRemoteDescriptors();
+                await peerRpc.getProxyObject('hello')();
+            }
+        });
+
+        test('proxies per peer', async () => {
+            await mainRpc.requestRemoteDescriptors('A');
+            await mainRpc.requestRemoteDescriptors('B');
+
+            expect(await mainRpc.getProxyObject('peer_obj', 'A').getName()).toBe('peer A');
+            expect(await mainRpc.getProxyObject('peer_obj', 'B').getName()).toBe('peer B');
+            expect(() => mainRpc.getProxyObject('peer_obj')).toThrowError();
+            expect(() => mainRpc.getProxyObject('peer_obj', 'C')).toThrowError('Unknown peer');
+        });
+
+        test('reply channels that can answer synchronously', async () => {
+            // like ipcMain: `sendSync` of the reply channel sets `event.returnValue`, it can not send a request
+            let mainReceive: (message: RPC_Message, replyChannel?: RPCChannel) => void;
+            let peerReceive: (message: RPC_Message) => void;
+            let returnValue: any;
+            const replyChannel: RPCChannel = {
+                peerId: 'C',
+                sendAsync: (message) => Promise.resolve().then(() => peerReceive(message)),
+                sendSync: (message) => { returnValue = message; }
+            };
+            mainRpc = new SuperRPC(nanoid);
+            mainRpc.connect({ receive: (callback) => mainReceive = callback });
+            mainRpc.registerHostFunction('hello', () => 'hello', { returns: 'sync' });
+
+            const peerRpc = new SuperRPC(nanoid);
+            peerRpc.connect({
+                receive: (callback) => peerReceive = callback,
+                sendAsync: (message) => Promise.resolve().then(() => mainReceive(message, replyChannel)),
+                sendSync: (message) => (returnValue = undefined, mainReceive(message, replyChannel), returnValue)
+            });
+            peerRpc.registerHostObject('peer_obj', { getName: () => 'peer C', name: 'C' }, { functions: ['getName'], proxiedProperties: ['name'] });
+            peerRpc.requestRemoteDescriptors();
+            expect(peerRpc.getProxyObject('hello')()).toBe('hello');
+
+            await mainRpc.requestRemoteDescriptors('C');
+            const peerObj = mainRpc.getProxyObject('peer_obj', 'C');
+            expect(await peerObj.getName()).toBe('peer C');
+            expect(await peerObj.name).toBe('C');
+        });
+
+        test('disconnect a peer', async () => {
+            const onPeerDisconnect = jest.fn();
+            mainRpc.on('peerDisconnect', onPeerDisconnect);
+            await mainRpc.requestRemoteDescriptors('A');
+            await mainRpc.requestRemoteDescriptors('B');
+            const proxyA = mainRpc.getProxyObject('peer_obj', 'A');
+            const proxyB = mainRpc.getProxyObject('peer_obj', 'B');
+
+            mainRpc.disconnectPeer('A', 'reloaded');
+
+            expect(onPeerDisconnect).toHaveBeenCalledWith('A', 'reloaded');
+            await expect(proxyA.getName()).rejects.toThrowError('disposed');
+            expect(await proxyB.getName()).toBe('peer B');
+        });
+
+        test('peer connect event', async () => {
+            const onPeerConnect = jest.fn();
+            mainRpc.on('peerConnect', onPeerConnect);
+            mainRpc.disconnectPeer('B');
+
+            await peerRpcs.B.getProxyObject('hello')();
+            expect(onPeerConnect).toHaveBeenCalledWith('B');
+        });
+
+        test('implicit host objects are released per peer', async () => {
+            const callback = () => 'callback';
+            mainRpc.registerHostFunction('callMe', (fn: () => void) => fn(), {});
+            mainRpc.registerHostFunction('getCallback', () => callback, {});
+            for (const peerRpc of Object.values(peerRpcs)) {
+                await peerRpc.requestRemoteDescriptors();
+                await peerRpc.getProxyObject('getCallback')();
+            }
+            const registry = (mainRpc as any).hostObjectRegistry;
+            const size = registry.size;
+
+            mainRpc.disconnectPeer('A');
+            expect(registry.size).toBe(size);
+
+            mainRpc.disconnectPeer('B');
+            expect(registry.size).toBe(size - 1);
+        });
+    });
+
+    describe('lifecycle', () => {
+        let hostObj: any;
+
+        beforeEach(() => {
+            hostObj = {
+                neverResolves: () => new Promise(() => { /* never */ }),
+                syncFunc: () => 'sync',
+                setListener(listener: () => void) { this.listener = listener; }
+            };
+            rpc1.registerHostObject('host_obj', hostObj, {
+                functions: ['neverResolves', { name: 'syncFunc', returns: 'sync' }, 'setListener']
+            });
+            rpc1.sendRemoteDescriptors();
+        });
+
+        test('disconnect rejects pending calls', async () => {
+            const promise = rpc2.getProxyObject('host_obj').neverResolves();
+            rpc2.disconnect('bye');
+
+            await expect(promise).rejects.toThrowError(RPCChannelClosedError);
+            expect((rpc2 as any).asyncCallbacks.size).toBe(0);
+        });
+
+        test('proxies are disposed', () => {
+            const proxyObj = rpc2.getProxyObject('host_obj');
+            expect(proxyObj.syncFunc()).toBe('sync');
+
+            rpc2.disconnect();
+
+            expect(() => proxyObj.syncFunc()).toThrowError('disposed');
+            expect(() => rpc2.getProxyObject('host_obj')).toThrowError();
+        });
+
+        test('implicitly registered host objects are released', async () => {
+            await rpc2.getProxyObject('host_obj').setListener(() => { /* listener */ });
+            rpc2.registerHostFunction('explicit', jest.fn(), {});
+            const registry = (rpc2 as any).hostObjectRegistry;
+            expect(registry.size).toBe(2);
+
+            rpc2.disconnect();
+
+            expect(registry.size).toBe(1);
+            expect(registry.has('explicit')).toBeTruthy();
+        });
+
+        test('events and channel close', () => {
+            const onConnect = jest.fn();
+            const onDisconnect = jest.fn();
+            let closeChannel: (reason?: any) => void = () => undefined;
+
+            rpc2.on('connect', onConnect).on('disconnect', onDisconnect);
+            rpc2.connect({ ...channel2, onClose: (callback) => closeChannel = callback });
+            expect(onConnect).toHaveBeenCalledTimes(1);
+
+            closeChannel('peer died');
+            closeChannel('peer died');
+            expect(onDisconnect).toHaveBeenCalledTimes(1);
+            expect(onDisconnect).toHaveBeenCalledWith('peer died');
+
+            rpc2.off('disconnect', onDisconnect);
+            rpc2.connect(channel2);
+            rpc2.disconnect();
+            expect(onConnect).toHaveBeenCalledTimes(2);
+            expect(onDisconnect).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('typed proxies', () => {
+        class Counter {
+            static readonly MAX = 10;
+            static create(start: number) { return new Counter(start); }
+
+            readonly id = 'counter';
+            label = 'count';
+            constructor(public value: number) {}
+
+            increment(by: number) { return this.value += by; }
+            get current() { return this.value; }
+            reset() { this.value = 0; }
+            secret() { return 'hidden'; }
+        }
+
+        const counterDescriptor = {
+            ctor: {},
+            static: {
+                readonlyProperties: ['MAX'],
+                functions: [{ name: 'create', returns: 'sync' }]
+            },
+            instance: {
+                readonlyProperties: ['id'],
+                proxiedProperties: ['label', { name: 'current', readonly: true }, { name: 'value', live: true }],
+                functions: ['increment', { name: 'reset', returns: 'void' }]
+            }
+        } as const;
+
+        const serviceDescriptor = {
+            functions: ['increment', { name: 'reset', returns: 'void' }],
+            proxiedProperties: [{ name: 'value', get: { returns: 'async' } }]
+        } as const;
+
+        beforeEach(() => {
+            rpc1.registerHostClass('counter', Counter, counterDescriptor);
+            rpc1.registerHostObject('counterObj', new Counter(1), serviceDescriptor);
+            rpc1.registerHostFunction('add', (a: number, b: number) => a + b, { returns: 'sync' });
+            rpc2.requestRemoteDescriptors();
+        });
+
+        test('object', async () => {
+            const proxy = rpc2.getProxyObject<Counter, typeof serviceDescriptor>('counterObj');
+
+            const result: Promise<number> = proxy.increment(2);
+            expect(await result).toBe(3);
+            expect(await proxy.increment(1, callOptions({ timeout: 100 }))).toBe(4);
+            const voidResult: void = proxy.reset();
+            expect(voidResult).toBeUndefined();
+            const value: Promise<number> = proxy.value;
+            expect(await value).toBe(0);
+
+            // @ts-expect-error not listed in the descriptor
+            expect(proxy.secret).toBeUndefined();
+            // @ts-expect-error wrong argument type
+            proxy.increment('1');
+        });
+
+        test('function', () => {
+            const add = rpc2.getProxyObject<(a: number, b: number) => number, { type: 'function', returns: 'sync' }>('add');
+            const result: number = add(1, 2);
+            expect(result).toBe(3);
+        });
+
+        test('class', async () => {
+            const ProxyCounter = rpc2.getProxyClass<typeof Counter, typeof counterDescriptor>('counter');
+
+            const counter = new ProxyCounter(5);
+            expect(counter.id).toBe('counter');
+            expect(await counter.increment(1)).toBe(6);
+            expect(counter.current).toBe(6);
+            const value: number = counter.value;
+            expect(value).toBe(6);
+            counter.on('propertyChanged', jest.fn());
+            counter.label = 'new label';
+            expect(counter.label).toBe('new label');
+
+            expect(ProxyCounter.MAX).toBe(10);
+            expect(ProxyCounter.create(1)).toBeDefined();
+
+            // @ts-expect-error readonly property
+            expect(() => counter.current = 1).toThrow();
+            // @ts-expect-error not listed in the descriptor
+            expect(counter.secret).toBeUndefined();
+        });
+
+        test('untyped', () => {
+            const proxy = rpc2.getProxyObject('counterObj');
+            expect(proxy.anything).toBeUndefined();
+            const ProxyClass: AnyConstructor = rpc2.getProxyClass('counter');
+            expect(ProxyClass).toBeDefined();
         });
     });
 
@@ -27,6 +27,17 @@ export const waitForAllTimers = async () => {
     }
 };
 
+// the source of a worker/child process that runs a TypeScript file (its path is the first argument or the workerData),
+// transpiled on the fly
+export const tsBootstrap = `
+const fs = require('fs');
+const ts = require('typescript');
+require.extensions['.ts'] = (module, filename) => module._compile(ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+}).outputText, filename);
+require(require('worker_threads').workerData ?? process.argv[1]);
+`;
+
 beforeEach(() => {
     timeoutObjs = [];
 });
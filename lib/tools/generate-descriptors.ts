@@ -0,0 +1,238 @@
+/**
+ * A build-time tool that generates descriptors ([[ObjectDescriptor]], [[ClassDescriptor]]) from TypeScript
+ * interfaces and classes, so the descriptors can not drift from the real API.
+ *
+ * - Methods (and function typed properties) become `functions`. The return behavior is inferred from
+ *   the return type: `Promise<T>` - 'async', `void` - 'void', anything else - 'sync'.
+ * - Function typed arguments get an [[ArgumentDescriptor]] with the return behavior of the callback.
+ * - `readonly` properties become `readonlyProperties`, other properties (and getters) become `proxiedProperties`.
+ * - Private/protected members and members marked with the `@rpcIgnore` JSDoc tag are skipped.
+ * - For classes the constructor, the static and the instance side are described separately.
+ *
+ * Usage:
+ * ```
+ * node generate-descriptors.js <file.ts> <TypeName>... [--out <file.ts>]
+ * ```
+ * @module
+ */
+
+import * as fs from 'fs';
+import * as ts from 'typescript';
+import type {
+    ArgumentDescriptor, ClassDescriptor, FunctionDescriptor, FunctionReturnBehavior,
+    ObjectDescriptor, PropertyDescriptor
+} from '../rpc-descriptor-types';
+
+export interface GeneratorOptions {
+    /**
+     * If set, only these members are described.
+     */
+    include?: string[];
+
+    /**
+     * These members are skipped.
+     */
+    exclude?: string[];
+
+    /**
+     * Options for the TypeScript compiler that reads the source file.
+     */
+    compilerOptions?: ts.CompilerOptions;
+}
+
+export type GeneratedDescriptors = { [typeName: string]: ObjectDescriptor | ClassDescriptor };
+
+/**
+ * Generates a descriptor for each of the given interfaces/classes found in the source file.
+ * Interfaces produce an [[ObjectDescriptor]], classes produce a [[ClassDescriptor]].
+ */
+export function generateDescriptors(fileName: string, typeNames: string[], options: GeneratorOptions = {}): GeneratedDescriptors {
+    const program = ts.createProgram([fileName], { strict: true, noEmit: true, ...options.compilerOptions });
+    const checker = program.getTypeChecker();
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) throw new Error(`Could not read file '${fileName}'`);
+
+    const generator = new DescriptorGenerator(checker, options);
+    const descriptors: GeneratedDescriptors = {};
+
+    for (const typeName of typeNames) {
+        const declaration = sourceFile.statements.find((statement): statement is ts.InterfaceDeclaration | ts.ClassDeclaration =>
+            (ts.isInterfaceDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name?.text === typeName);
+        if (!declaration) throw new Error(`No interface or class named '${typeName}' in '${fileName}'`);
+
+        descriptors[typeName] = ts.isClassDeclaration(declaration)
+            ? generator.describeClass(declaration)
+            : generator.describeObject(checker.getTypeAtLocation(declaration));
+    }
+
+    return descriptors;
+}
+
+/**
+ * Prints the generated descriptors as a TypeScript module, each exported as `<TypeName>Descriptor`.
+ * They are declared `as const`, so they can be used to type the proxies (see [[ProxyType]]).
+ */
+export function printDescriptors(descriptors: GeneratedDescriptors) {
+    const lines = ['// Generated by generate-descriptors - do not edit.'];
+    for (const [typeName, descriptor] of Object.entries(descriptors)) {
+        lines.push('', `export const ${typeName}Descriptor = ${printValue(descriptor, '')} as const;`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+class DescriptorGenerator {
+    constructor(private checker: ts.TypeChecker, private options: GeneratorOptions) {
+    }
+
+    describeClass(declaration: ts.ClassDeclaration): ClassDescriptor {
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        const symbol = this.checker.getSymbolAtLocation(declaration.name!)!;
+        const staticType = this.checker.getTypeOfSymbolAtLocation(symbol, declaration);
+        const descriptor: ClassDescriptor = { type: 'class' };
+
+        const ctorSignature = staticType.getConstructSignatures()[0];
+        if (ctorSignature && !hasModifier(declaration.members.find(ts.isConstructorDeclaration), ts.ModifierFlags.Private | ts.ModifierFlags.Protected)) {
+            descriptor.ctor = this.describeSignature(ctorSignature, false);
+        }
+
+        const staticDescr = this.describeObject(staticType, ['prototype']);
+        if (Object.keys(staticDescr).length > 1) descriptor.static = staticDescr;
+
+        descriptor.instance = this.describeObject(this.checker.getDeclaredTypeOfSymbol(symbol));
+        return descriptor;
+    }
+
+    describeObject(type: ts.Type, skip: string[] = []): ObjectDescriptor {
+        const functions: (string | FunctionDescriptor)[] = [];
+        const proxiedProperties: (string | PropertyDescriptor)[] = [];
+        const readonlyProperties: string[] = [];
+
+        for (const member of this.checker.getPropertiesOfType(type)) {
+            const name = member.getName();
+            const declaration = member.valueDeclaration ?? member.declarations?.[0];
+            if (!declaration || skip.includes(name) || !this.isIncluded(name, declaration)) continue;
+
+            const memberType = this.checker.getNonNullableType(this.checker.getTypeOfSymbolAtLocation(member, declaration));
+            const signatures = memberType.getCallSignatures();
+
+            if (member.flags & ts.SymbolFlags.Method || (signatures.length && member.flags & ts.SymbolFlags.Property)) {
+                const func = this.describeSignatures(signatures);
+                // 'async' is the default for functions, so the name is enough
+                functions.push(func.returns === 'async' && !func.arguments ? name : { name, ...func });
+            } else if (member.flags & ts.SymbolFlags.GetAccessor) {
+                proxiedProperties.push(member.flags & ts.SymbolFlags.SetAccessor ? name : { name, readonly: true });
+            } else if (hasModifier(declaration, ts.ModifierFlags.Readonly)) {
+                readonlyProperties.push(name);
+            } else {
+                proxiedProperties.push(name);
+            }
+        }
+
+        const descriptor: ObjectDescriptor = { type: 'object' };
+        if (functions.length) descriptor.functions = functions;
+        if (proxiedProperties.length) descriptor.proxiedProperties = proxiedProperties;
+        if (readonlyProperties.length) descriptor.readonlyProperties = readonlyProperties;
+        return descriptor;
+    }
+
+    /**
+     * Describes an overloaded function: an argument is a function if it is a function in any of the overloads.
+     */
+    private describeSignatures(signatures: readonly ts.Signature[]): FunctionDescriptor {
+        const descriptors = signatures.map(signature => this.describeSignature(signature));
+        const args = new Map<number, ArgumentDescriptor>();
+        for (const descr of descriptors) {
+            for (const arg of descr.arguments ?? []) {
+                // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+                if (!args.has(arg.idx!)) args.set(arg.idx!, arg);
+            }
+        }
+
+        const descriptor: FunctionDescriptor = {};
+        const returns = descriptors[0]?.returns;
+        if (returns) descriptor.returns = returns;
+        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+        if (args.size) descriptor.arguments = [...args.values()].sort((a, b) => a.idx! - b.idx!);
+        return descriptor;
+    }
+
+    private describeSignature(signature: ts.Signature, withReturns = true): FunctionDescriptor {
+        const descriptor: FunctionDescriptor = {};
+        const returns = withReturns ? this.inferReturnBehavior(signature) : undefined;
+        if (returns) descriptor.returns = returns;
+
+        const args: ArgumentDescriptor[] = [];
+        signature.getParameters().forEach((param, idx) => {
+            // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+            const paramType = this.checker.getNonNullableType(this.checker.getTypeOfSymbolAtLocation(param, param.valueDeclaration!));
+            const callbackSignatures = paramType.getCallSignatures();
+            if (callbackSignatures.length) {
+                args.push({ idx, type: 'function', ...this.describeSignatures(callbackSignatures) });
+            }
+        });
+        if (args.length) descriptor.arguments = args;
+
+        return descriptor;
+    }
+
+    private inferReturnBehavior(signature: ts.Signature): FunctionReturnBehavior | undefined {
+        const returnType = this.checker.getReturnTypeOfSignature(signature);
+        if (returnType.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return undefined;
+        if (returnType.flags & (ts.TypeFlags.Void | ts.TypeFlags.Undefined)) return 'void';
+        const typeName = returnType.getSymbol()?.getName();
+        if (typeName === 'Promise' || typeName === 'PromiseLike') return 'async';
+        return 'sync';
+    }
+
+    private isIncluded(name: string, declaration: ts.Declaration) {
+        if (this.options.include && !this.options.include.includes(name)) return false;
+        if (this.options.exclude?.includes(name)) return false;
+        if (name.startsWith('#') || name.startsWith('__')) return false;
+        if (hasModifier(declaration, ts.ModifierFlags.Private | ts.ModifierFlags.Protected)) return false;
+        return !ts.getJSDocTags(declaration).some(tag => tag.tagName.text === 'rpcIgnore');
+    }
+}
+
+function hasModifier(declaration: ts.Declaration | undefined, flags: ts.ModifierFlags) {
+    return !!declaration && (ts.getCombinedModifierFlags(declaration) & flags) !== 0;
+}
+
+function printValue(value: any, indent: string): string {
+    const innerIndent = indent + '    ';
+    if (Array.isArray(value)) {
+        if (value.every(item => typeof item !== 'object')) return `[${value.map(item => printValue(item, innerIndent)).join(', ')}]`;
+        return `[\n${value.map(item => innerIndent + printValue(item, innerIndent)).join(',\n')}\n${indent}]`;
+    }
+    if (typeof value === 'object' && value) {
+        const entries = Object.entries(value).map(([key, item]) => `${innerIndent}${key}: ${printValue(item, innerIndent)}`);
+        return `{\n${entries.join(',\n')}\n${indent}}`;
+    }
+    return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+/* istanbul ignore next */
+function main(args: string[]) {
+    const readOption = (option: string) => {
+        const idx = args.indexOf(option);
+        return idx < 0 ? undefined : args.splice(idx, 2)[1];
+    };
+    const out = readOption('--out');
+    const [fileName, ...typeNames] = args;
+
+    if (!fileName || !typeNames.length) {
+        console.error('Usage: generate-descriptors <file.ts> <TypeName>... [--out <file.ts>]');
+        process.exit(1);
+    }
+
+    const source = printDescriptors(generateDescriptors(fileName, typeNames));
+    if (out) {
+        fs.writeFileSync(out, source);
+    } else {
+        process.stdout.write(source);
+    }
+}
+
+/* istanbul ignore next */
+if (require.main === module) {
+    main(process.argv.slice(2));
+}
@@ -0,0 +1,236 @@
+import type { RPC_Message } from '../lib/rpc-message-types';
+import type { SuperRPC, SuperRPCEvents } from '../lib/super-rpc';
+
+export interface RPCInspectorOptions {
+    /**
+     * The maximum number of messages kept in the list, older ones are removed.
+     * @default 500
+     */
+    maxMessages?: number;
+}
+
+type Direction = 'inbound' | 'outbound';
+
+type MessageEntry = {
+    time: number;
+    direction: Direction;
+    message: any;
+    row: HTMLTableRowElement;
+    latencyCell: HTMLTableCellElement;
+};
+
+const styles = `
+.rpc-inspector { font: 12px monospace; border: 1px solid #999; background: #fafafa; color: #222; }
+.rpc-inspector-toolbar { display: flex; gap: 6px; align-items: center; padding: 4px; border-bottom: 1px solid #ccc; }
+.rpc-inspector-messages { max-height: 300px; overflow-y: auto; }
+.rpc-inspector table { width: 100%; border-collapse: collapse; }
+.rpc-inspector th { position: sticky; top: 0; background: #eee; text-align: left; }
+.rpc-inspector td { padding: 1px 4px; border-bottom: 1px solid #eee; vertical-align: top; white-space: nowrap; }
+.rpc-inspector td.rpc-inspector-data { white-space: normal; word-break: break-all; }
+.rpc-inspector tr.outbound td:nth-child(2) { color: #05a; }
+.rpc-inspector tr.inbound td:nth-child(2) { color: #a50; }
+.rpc-inspector tr.failed { background: #fdd; }
+.rpc-inspector pre { margin: 0; padding: 4px; max-height: 300px; overflow: auto; }
+`;
+
+/**
+ * An in-page inspector panel that lists the messages of a [[SuperRPC]] instance in real time,
+ * and shows its remote descriptors and live proxy objects.
+ *
+ * It is fed by the `message` event and [[SuperRPC.getDebugInfo]], so it has to be created before
+ * the traffic that should be inspected.
+ *
+ * ```ts
+ * const inspector = new RPCInspector(rpc, document.getElementById('inspector'));
+ * ```
+ */
+export class RPCInspector {
+    private readonly root: HTMLElement;
+    private readonly tbody: HTMLTableSectionElement;
+    private readonly filterInput: HTMLInputElement;
+    private readonly directionSelect: HTMLSelectElement;
+    private readonly pauseButton: HTMLButtonElement;
+    private readonly debugInfo: HTMLPreElement;
+
+    private readonly entries: MessageEntry[] = [];
+    private paused: MessageEntry[] | undefined;
+
+    // the calls waiting for a reply, to measure the latency
+    private readonly pendingCalls = new Map<string, MessageEntry>();
+    private readonly pendingSyncCalls: { [direction in Direction]?: MessageEntry } = {};
+
+    private readonly listener: SuperRPCEvents['message'] = (message, direction) => this.add(direction, message);
+
+    constructor(private readonly rpc: SuperRPC, container: HTMLElement = document.body, private readonly options: RPCInspectorOptions = {}) {
+        this.filterInput = el('input', { type: 'search', placeholder: 'Filter (action, object, member)' });
+        this.filterInput.addEventListener('input', () => this.applyFilter());
+
+        this.directionSelect = el('select', {}, [
+            el('option', { value: '', textContent: 'Both directions' }),
+            el('option', { value: 'outbound', textContent: 'Outbound' }),
+            el('option', { value: 'inbound', textContent: 'Inbound' })
+        ]);
+        this.directionSelect.addEventListener('change', () => this.applyFilter());
+
+        this.pauseButton = el('button', { textContent: 'Pause' });
+        this.pauseButton.addEventListener('click', () => this.togglePause());
+
+        const clearButton = el('button', { textContent: 'Clear' });
+        clearButton.addEventListener('click', () => this.clear());
+
+        const refreshButton = el('button', { textContent: 'Refresh' });
+        refreshButton.addEventListener('click', () => this.refreshDebugInfo());
+
+        this.tbody = el('tbody');
+        this.debugInfo = el('pre');
+
+        this.root = el('div', { className: 'rpc-inspector' }, [
+            el('style', { textContent: styles }),
+            el('div', { className: 'rpc-inspector-toolbar' }, [el('b', { textContent: 'RPC Inspector' }), this.filterInput, this.directionSelect, this.pauseButton, clearButton]),
+            el('div', { className: 'rpc-inspector-messages' }, [
+                el('table', {}, [
+                    el('thead', {}, [el('tr', {}, ['Time', 'Dir', 'Action', 'Call type', 'Object / member', 'Args / result', 'Latency']
+                        .map(title => el('th', { textContent: title })))]),
+                    this.tbody
+                ])
+            ]),
+            el('details', {}, [
+                el('summary', {}, ['Remote descriptors and live proxies ', refreshButton]),
+                this.debugInfo
+            ])
+        ]);
+        container.appendChild(this.root);
+
+        rpc.on('message', this.listener);
+        this.refreshDebugInfo();
+    }
+
+    /**
+     * Removes the panel and stops listening to the messages.
+     */
+    dispose() {
+        this.rpc.off('message', this.listener);
+        this.root.remove();
+    }
+
+    private add(direction: Direction, message: RPC_Message) {
+        const msg: any = message;
+        const latencyCell = el('td');
+        const row = el('tr', { className: direction }, [
+            el('td', { textContent: new Date().toLocaleTimeString() }),
+            el('td', { textContent: direction === 'outbound' ? '→' : '←' }),
+            el('td', { textContent: msg.action }),
+            el('td', { textContent: msg.callType ?? '' }),
+            el('td', { textContent: msg.objId ? msg.objId + (msg.prop ? '.' + msg.prop : '') : '' }),
+            el('td', { className: 'rpc-inspector-data', textContent: summarize(msg) }),
+            latencyCell
+        ]);
+        if (msg.action === 'fn_reply' && !msg.success) row.classList.add('failed');
+
+        const entry: MessageEntry = { time: performance.now(), direction, message: msg, row, latencyCell };
+        this.trackLatency(entry);
+
+        if (this.paused) {
+            this.paused.push(entry);
+            this.pauseButton.textContent = `Resume (${this.paused.length})`;
+        } else {
+            this.append(entry);
+        }
+
+        if (['descriptors', 'descriptors_update', 'handshake', 'handshake_reply'].includes(msg.action)) this.refreshDebugInfo();
+    }
+
+    private trackLatency(entry: MessageEntry) {
+        const { message, direction } = entry;
+        const replyDirection: Direction = direction === 'outbound' ? 'inbound' : 'outbound';
+
+        if (message.action === 'fn_reply') {
+            const call = message.callType === 'async'
+                ? this.pendingCalls.get(`${replyDirection}:${message.callId}`)
+                : this.pendingSyncCalls[replyDirection];
+
+            if (call) {
+                const latency = `${(entry.time - call.time).toFixed(1)}ms`;
+                call.latencyCell.textContent = entry.latencyCell.textContent = latency;
+                this.pendingCalls.delete(`${replyDirection}:${message.callId}`);
+                delete this.pendingSyncCalls[replyDirection];
+            }
+        } else if (message.callType === 'async') {
+            this.pendingCalls.set(`${direction}:${message.callId}`, entry);
+        } else if (message.callType === 'sync') {
+            this.pendingSyncCalls[direction] = entry;
+        }
+    }
+
+    private append(entry: MessageEntry) {
+        this.entries.push(entry);
+        entry.row.hidden = !this.matchesFilter(entry);
+        this.tbody.appendChild(entry.row);
+
+        const maxMessages = this.options.maxMessages ?? 500;
+        while (this.entries.length > maxMessages) {
+            this.entries.shift()?.row.remove();
+        }
+        entry.row.scrollIntoView({ block: 'nearest' });
+    }
+
+    private togglePause() {
+        if (this.paused) {
+            const paused = this.paused;
+            this.paused = undefined;
+            paused.forEach(entry => this.append(entry));
+            this.pauseButton.textContent = 'Pause';
+        } else {
+            this.paused = [];
+            this.pauseButton.textContent = 'Resume (0)';
+        }
+    }
+
+    private clear() {
+        this.entries.splice(0).forEach(entry => entry.row.remove());
+        if (this.paused) {
+            this.paused = [];
+            this.pauseButton.textContent = 'Resume (0)';
+        }
+    }
+
+    private matchesFilter({ direction, message }: MessageEntry) {
+        const directionFilter = this.directionSelect.value;
+        if (directionFilter && directionFilter !== direction) return false;
+
+        const text = this.filterInput.value.trim().toLowerCase();
+        return !text || [message.action, message.objId, message.prop].some(value => String(value ?? '').toLowerCase().includes(text));
+    }
+
+    private applyFilter() {
+        for (const entry of this.entries) {
+            entry.row.hidden = !this.matchesFilter(entry);
+        }
+    }
+
+    private refreshDebugInfo() {
+        this.debugInfo.textContent = JSON.stringify(this.rpc.getDebugInfo(), null, 2);
+    }
+}
+
+function summarize(message: any) {
+    const data = message.action === 'fn_reply' ? message.result
+        : message.action === 'prop_changed' ? message.value
+            : message.action === 'handshake' || message.action === 'handshake_reply' ? message.info
+                : message.action === 'descriptors' || message.action === 'descriptors_update'
+                    ? { objects: Object.keys(message.objects ?? {}), classes: Object.keys(message.classes ?? {}) }
+                    : message.args;
+    if (data === undefined) return '';
+    try {
+        const text = JSON.stringify(data);
+        return text.length > 200 ? text.slice(0, 200) + '…' : text;
+    } catch {
+        return String(data);
+    }
+}
+
+function el<K extends keyof HTMLElementTagNameMap>(tag: K, props: Partial<HTMLElementTagNameMap[K]> = {}, children: (Node | string)[] = []) {
+    const element = Object.assign(document.createElement(tag), props);
+    element.append(...children);
+    return element;
+}
@@ -1,24 +1,30 @@
 import { nanoid } from 'nanoid/non-secure';
 import { RPCChannel, SuperRPC } from '../lib/super-rpc';
 import type { BrowserWindow as ElectronBrowserWindow } from 'electron';
+import type { browserWindowDescriptor } from '../app/descriptors';
+import { RPCInspector } from './rpc-inspector';
 
 declare const rpcChannel: RPCChannel;
 
 const rpc = new SuperRPC(nanoid);
 rpc.connect(rpcChannel);
 
+new RPCInspector(rpc, document.getElementById('inspector'));
+
+// reports a main process built from a different version of the library
+rpc.handshake().catch(err => console.error(err));
 rpc.requestRemoteDescriptors();
 
 export const api = rpc.getProxyObject('serviceObj');
 
-export const BrowserWindow = <typeof ElectronBrowserWindow>rpc.getProxyClass('BrowserWindow');
+export const BrowserWindow = rpc.getProxyClass<typeof ElectronBrowserWindow, typeof browserWindowDescriptor>('BrowserWindow');
 
 const mainWindow = BrowserWindow.fromId(1);
 
 (async () => {
     const boundsSpan = document.getElementById('boundsSpan');
     const currentWindow = await api.getCurrentWindow();
-    await currentWindow.addListener('move', async () => {
+    currentWindow.on('move', async () => {
         boundsSpan.textContent = JSON.stringify(await currentWindow.getBounds());
     });
 })();